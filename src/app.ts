@@ -0,0 +1,63 @@
+import 'dotenv/config'
+import { cors } from 'hono/cors'
+import { prettyJSON } from 'hono/pretty-json'
+
+import { authMiddleware } from './auth/auth-guard'
+import { getEnv } from './env'
+import createApp from './lib/create-app'
+import { errorHandler, notFoundHandler } from './lib/errors'
+import { combinedLogger } from './lib/logger'
+import { httpMetrics } from './lib/metrics'
+import { rateLimit } from './lib/rate-limit'
+import appRouter from './routes'
+import authRouter from './routes/auth'
+import { createDocsRouter } from './routes/docs'
+
+const app = createApp()
+
+app.use('*', combinedLogger())
+app.use('*', httpMetrics())
+
+// Global rate limiting: 100 requests per minute
+// Probes are exempt so liveness never depends on the rate limit store
+app.use('*', rateLimit({ skip: (c) => c.req.path.startsWith('/api/health/') }))
+
+app.use(
+  '/*',
+  cors({
+    origin: (_origin, c) => {
+      return getEnv(c).CORS_ORIGIN || 'http://localhost:3001'
+    },
+    allowHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-API-Key',
+      'traceparent',
+      'tracestate',
+    ],
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    exposeHeaders: [
+      'Content-Length',
+      'X-Request-ID',
+      'traceparent',
+      'tracestate',
+    ],
+    maxAge: 600,
+    credentials: true,
+  })
+)
+app.use(prettyJSON())
+
+app.use('*', authMiddleware)
+
+// Chained so the route types survive into AppType for the RPC client
+const routes = app.basePath('/api').route('/', authRouter).route('/', appRouter)
+
+app.route('/api', createDocsRouter(app))
+
+app.notFound(notFoundHandler)
+app.onError(errorHandler)
+
+export type AppType = typeof routes
+
+export default app
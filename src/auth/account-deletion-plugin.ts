@@ -0,0 +1,115 @@
+import type { BetterAuthPlugin, Where } from 'better-auth'
+import { APIError, createAuthMiddleware, isAPIError } from 'better-auth/api'
+import { and, eq, isNotNull } from 'drizzle-orm'
+
+import db from '@/db'
+import { user } from '@/db/schema/auth-schema'
+
+const LIST_USERS_PATH = '/admin/list-users'
+// Endpoints acting on the user in `body.userId`
+const USER_ID_PATHS = new Set(['/admin/set-role', '/organization/add-member'])
+const INVITE_PATH = '/organization/invite-member'
+
+/**
+ * Whether the user with this ID or email has been anonymised
+ */
+const isDeleted = async (match: { id: string } | { email: string }) => {
+  const [row] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(
+      and(
+        'id' in match
+          ? eq(user.id, match.id)
+          : eq(user.email, match.email.toLowerCase()),
+        isNotNull(user.deletedAt)
+      )
+    )
+  return !!row
+}
+
+/**
+ * Keep anonymised users (see src/auth/account-deletion.ts) out of Better
+ * Auth's admin user listing, and refuse to give them roles or memberships
+ * They only remain until purged so the records pointing to them stay valid
+ */
+export const accountDeletionPlugin = () =>
+  ({
+    id: 'account-deletion',
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => !!ctx.path && USER_ID_PATHS.has(ctx.path),
+          handler: createAuthMiddleware(async (ctx) => {
+            const userId: unknown = ctx.body?.userId
+            if (typeof userId !== 'string') return
+            if (await isDeleted({ id: userId })) {
+              throw new APIError('NOT_FOUND', {
+                code: 'USER_NOT_FOUND',
+                message: 'User not found',
+              })
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === INVITE_PATH,
+          handler: createAuthMiddleware(async (ctx) => {
+            const email: unknown = ctx.body?.email
+            if (typeof email !== 'string') return
+            if (await isDeleted({ email })) {
+              throw new APIError('BAD_REQUEST', {
+                code: 'USER_DELETED',
+                message: 'This account has been deleted',
+              })
+            }
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) => ctx.path === LIST_USERS_PATH,
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned as
+              | {
+                  users: { deletedAt?: Date | null }[]
+                  total: number
+                  limit?: number
+                  offset?: number
+                }
+              | undefined
+            if (!returned || isAPIError(returned) || !returned.users) return
+
+            // The listing's filters can't express IS NULL: anonymised users
+            // are dropped from the page, and those matching the same query
+            // from the total
+            const query = ctx.query ?? {}
+            const where: Where[] = [
+              { field: 'deletedAt', operator: 'gt', value: new Date(0) },
+            ]
+            if (query.searchValue) {
+              where.push({
+                field: query.searchField || 'email',
+                operator: query.searchOperator || 'contains',
+                value: query.searchValue,
+              })
+            }
+            if (query.filterValue !== undefined) {
+              where.push({
+                field: query.filterField || 'email',
+                operator: query.filterOperator || 'eq',
+                value: query.filterValue,
+              })
+            }
+            const deleted =
+              await ctx.context.internalAdapter.countTotalUsers(where)
+
+            return ctx.json({
+              ...returned,
+              users: returned.users.filter(({ deletedAt }) => !deletedAt),
+              total: Math.max(0, returned.total - deleted),
+            })
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,328 @@
+import { and, eq, isNotNull, isNull, lte } from 'drizzle-orm'
+
+import db from '@/db'
+import {
+  account,
+  member,
+  organization,
+  passkey,
+  session,
+  twoFactor,
+  user,
+} from '@/db/schema/auth-schema'
+
+import { recordAudit } from '@/lib/audit'
+import { ValidationError } from '@/lib/errors'
+import { onShutdown, onStart } from '@/lib/lifecycle'
+import { logger } from '@/lib/logger'
+import { sendMail } from '@/lib/mailer'
+import { verifyPassword } from '@/lib/password'
+import { anonymizeUserData, registerUserData } from '@/lib/user-data'
+
+import { getEnv } from '@/env'
+
+import { revokeSessions } from './sessions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000
+
+// Name of anonymised users, their email becomes `deleted-<id>@<domain>`
+const DELETED_NAME = 'Deleted user'
+const DELETED_EMAIL_DOMAIN = 'deleted.invalid'
+
+type User = { id: string; email: string; name: string }
+
+export interface AccountDeletionRun {
+  /**
+   * Accounts anonymised after their grace period
+   */
+  deleted: number
+  /**
+   * Anonymised accounts removed for good
+   */
+  purged: number
+}
+
+registerUserData('user', {
+  export: async ({ id }) => {
+    const [row] = await db
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        image: user.image,
+        role: user.role,
+        twoFactorEnabled: user.twoFactorEnabled,
+        deletionRequestedAt: user.deletionRequestedAt,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      })
+      .from(user)
+      .where(eq(user.id, id))
+    return row ?? null
+  },
+})
+
+// Passwords and OAuth tokens stay out
+registerUserData('accounts', {
+  export: ({ id }) =>
+    db
+      .select({
+        id: account.id,
+        providerId: account.providerId,
+        accountId: account.accountId,
+        scope: account.scope,
+        createdAt: account.createdAt,
+        updatedAt: account.updatedAt,
+      })
+      .from(account)
+      .where(eq(account.userId, id)),
+  anonymize: async ({ id }) => {
+    await db.delete(account).where(eq(account.userId, id))
+    await db.delete(twoFactor).where(eq(twoFactor.userId, id))
+  },
+})
+
+registerUserData('sessions', {
+  export: ({ id }) =>
+    db
+      .select({
+        id: session.id,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        impersonatedBy: session.impersonatedBy,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        expiresAt: session.expiresAt,
+      })
+      .from(session)
+      .where(eq(session.userId, id)),
+  // Through Better Auth, so cookie caches of the sessions stop working too
+  anonymize: async ({ id }) => {
+    await revokeSessions(id)
+  },
+})
+
+registerUserData('passkeys', {
+  export: ({ id }) =>
+    db
+      .select({
+        id: passkey.id,
+        name: passkey.name,
+        deviceType: passkey.deviceType,
+        backedUp: passkey.backedUp,
+        createdAt: passkey.createdAt,
+      })
+      .from(passkey)
+      .where(eq(passkey.userId, id)),
+  anonymize: async ({ id }) => {
+    await db.delete(passkey).where(eq(passkey.userId, id))
+  },
+})
+
+registerUserData('memberships', {
+  export: ({ id }) =>
+    db
+      .select({
+        organizationId: member.organizationId,
+        organization: organization.name,
+        role: member.role,
+        createdAt: member.createdAt,
+      })
+      .from(member)
+      .innerJoin(organization, eq(organization.id, member.organizationId))
+      .where(eq(member.userId, id)),
+  anonymize: async ({ id }) => {
+    await db.delete(member).where(eq(member.userId, id))
+  },
+})
+
+/**
+ * When an account whose deletion was requested at `requestedAt` is deleted
+ */
+export function deletionDate(requestedAt: Date): Date {
+  return new Date(
+    requestedAt.getTime() + getEnv().ACCOUNT_DELETION_GRACE_DAYS * DAY_MS
+  )
+}
+
+/**
+ * Schedule the deletion of a user's account once the grace period is over
+ * and tell them by email
+ * Users with a password must confirm it, asking again keeps the first date
+ * Returns when the account will be deleted
+ */
+export async function requestAccountDeletion(
+  owner: User,
+  password?: string
+): Promise<Date> {
+  const [credential] = await db
+    .select({ password: account.password })
+    .from(account)
+    .where(
+      and(eq(account.userId, owner.id), eq(account.providerId, 'credential'))
+    )
+  if (
+    credential?.password &&
+    !(password && (await verifyPassword(password, credential.password)))
+  ) {
+    throw new ValidationError([
+      { location: 'body', path: 'password', message: 'Incorrect password' },
+    ])
+  }
+
+  const [scheduled] = await db
+    .update(user)
+    .set({ deletionRequestedAt: new Date() })
+    .where(and(eq(user.id, owner.id), isNull(user.deletionRequestedAt)))
+    .returning({ requestedAt: user.deletionRequestedAt })
+  if (!scheduled) {
+    const [existing] = await db
+      .select({ requestedAt: user.deletionRequestedAt })
+      .from(user)
+      .where(eq(user.id, owner.id))
+    return deletionDate(existing.requestedAt!)
+  }
+
+  const deleteAt = deletionDate(scheduled.requestedAt!)
+  await sendMail('account-deletion-scheduled', owner.email, {
+    name: owner.name,
+    deleteAt,
+    url: new URL('/settings/account', getEnv().CORS_ORIGIN).href,
+  })
+  return deleteAt
+}
+
+/**
+ * Keep an account whose deletion was requested, returns false when none was
+ */
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const cancelled = await db
+    .update(user)
+    .set({ deletionRequestedAt: null })
+    .where(
+      and(
+        eq(user.id, userId),
+        isNotNull(user.deletionRequestedAt),
+        isNull(user.deletedAt)
+      )
+    )
+    .returning({ id: user.id })
+  return cancelled.length > 0
+}
+
+/**
+ * Anonymise every registered source, then the user row itself, which is
+ * kept until the retention period ends so the records pointing to it stay
+ * valid
+ */
+const deleteAccount = async (target: User) => {
+  await anonymizeUserData(target)
+  await db
+    .update(user)
+    .set({
+      name: DELETED_NAME,
+      email: `deleted-${target.id}@${DELETED_EMAIL_DOMAIN}`,
+      emailVerified: false,
+      image: null,
+      twoFactorEnabled: false,
+      deletedAt: new Date(),
+    })
+    .where(eq(user.id, target.id))
+  await recordAudit(
+    { action: 'user.deleted', target: { type: 'user', id: target.id } },
+    {}
+  )
+}
+
+/**
+ * Delete the accounts whose grace period is over and purge the ones
+ * anonymised longer ago than the retention period
+ * Every step can be repeated, so replicas running at once or a retry after
+ * a failure do no harm
+ */
+export async function processAccountDeletions(
+  now = new Date()
+): Promise<AccountDeletionRun> {
+  const env = getEnv()
+  const due = await db
+    .select({ id: user.id, email: user.email, name: user.name })
+    .from(user)
+    .where(
+      and(
+        isNull(user.deletedAt),
+        lte(
+          user.deletionRequestedAt,
+          new Date(now.getTime() - env.ACCOUNT_DELETION_GRACE_DAYS * DAY_MS)
+        )
+      )
+    )
+
+  let deleted = 0
+  for (const target of due) {
+    try {
+      await deleteAccount(target)
+      deleted++
+    } catch (err) {
+      logger.write('error', 'Account deletion failed', {
+        userId: target.id,
+        error: err,
+      })
+    }
+  }
+
+  // What is left of the user cascades from here
+  const purged = await db
+    .delete(user)
+    .where(
+      lte(
+        user.deletedAt,
+        new Date(now.getTime() - env.DELETED_ACCOUNT_RETENTION_DAYS * DAY_MS)
+      )
+    )
+    .returning({ id: user.id })
+  for (const { id } of purged) {
+    await recordAudit(
+      { action: 'user.purged', target: { type: 'user', id } },
+      {}
+    )
+  }
+
+  return { deleted, purged: purged.length }
+}
+
+/**
+ * Process deletions until the returned function is called, which waits for
+ * the current run to finish
+ */
+export function startAccountDeletionWorker(
+  intervalMs = RUN_INTERVAL_MS
+): () => Promise<void> {
+  let running: Promise<void> | undefined
+
+  const run = () => {
+    running ??= processAccountDeletions()
+      .then(() => undefined)
+      .catch((err: unknown) => {
+        logger.error('Account deletion run failed', err)
+      })
+      .finally(() => {
+        running = undefined
+      })
+  }
+
+  const timer = setInterval(run, intervalMs)
+  run()
+
+  return async () => {
+    clearInterval(timer)
+    await running
+  }
+}
+
+// Only the server runs the worker, tests call processAccountDeletions()
+onStart('accountDeletion', () => {
+  onShutdown('accountDeletion', startAccountDeletionWorker())
+})
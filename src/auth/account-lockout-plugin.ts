@@ -0,0 +1,127 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { APIError, createAuthMiddleware, isAPIError } from 'better-auth/api'
+
+import { recordAudit } from '@/lib/audit'
+import { sendMail } from '@/lib/mailer'
+
+import { getEnv } from '@/env'
+
+import {
+  clearFailedSignIns,
+  LOCK_DURATION_MS,
+  recordFailedSignIn,
+  signInBlock,
+} from './account-lockout'
+import { auditSource } from './audit-plugin'
+
+const SIGN_IN_PATH = '/sign-in/email'
+
+type LockoutUser = { id: string; email: string; name: string }
+
+interface LockoutContext {
+  lockoutEmail?: string
+  lockoutUser?: LockoutUser | null
+}
+
+/**
+ * Slow password guessing down per email: each failure past a few makes the
+ * next attempt wait longer, then the email is locked for a while and the
+ * owner of its account told by email
+ * Emails without an account are counted alike, so the answers don't tell
+ * which have one
+ */
+export const accountLockoutPlugin = () =>
+  ({
+    id: 'account-lockout',
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => ctx.path === SIGN_IN_PATH,
+          handler: createAuthMiddleware(async (ctx) => {
+            const email =
+              typeof ctx.body?.email === 'string'
+                ? ctx.body.email.toLowerCase()
+                : null
+            if (!email) return
+            const found =
+              await ctx.context.internalAdapter.findUserByEmail(email)
+
+            const block = await signInBlock(email)
+            if (block) {
+              const code =
+                block.reason === 'locked' ? 'ACCOUNT_LOCKED' : 'SIGN_IN_DELAYED'
+              // Refused before the endpoint runs, the audit log's own hook
+              // doesn't see it
+              await recordAudit(
+                {
+                  action: 'user.sign_in_failed',
+                  target: found ? { type: 'user', id: found.user.id } : null,
+                  metadata: { method: ctx.path, email, reason: code },
+                },
+                auditSource(ctx.headers)
+              )
+              const retryAfter = Math.max(
+                1,
+                Math.ceil((block.retryAt.getTime() - Date.now()) / 1000)
+              )
+              throw new APIError(
+                'TOO_MANY_REQUESTS',
+                {
+                  code,
+                  message:
+                    block.reason === 'locked'
+                      ? 'Too many failed sign-ins, the account is temporarily locked'
+                      : 'Too many failed sign-ins, wait before trying again',
+                },
+                { 'Retry-After': retryAfter.toString() }
+              )
+            }
+            return {
+              context: {
+                lockoutEmail: email,
+                lockoutUser: found?.user ?? null,
+              } satisfies LockoutContext,
+            }
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) => ctx.path === SIGN_IN_PATH,
+          handler: createAuthMiddleware(async (ctx) => {
+            const { lockoutEmail, lockoutUser } = ctx as LockoutContext
+            if (!lockoutEmail) return
+
+            const returned = ctx.context.returned
+            if (!isAPIError(returned)) {
+              await clearFailedSignIns(lockoutEmail)
+              return
+            }
+            // Unverified or banned users gave the right password
+            if (returned.body?.code !== 'INVALID_EMAIL_OR_PASSWORD') return
+
+            const { failedAttempts, lockedUntil } =
+              await recordFailedSignIn(lockoutEmail)
+            if (!lockedUntil || !lockoutUser) return
+
+            await sendMail('account-locked', lockoutUser.email, {
+              name: lockoutUser.name,
+              minutes: LOCK_DURATION_MS / 60_000,
+              url: new URL('/forgot-password', getEnv().CORS_ORIGIN).href,
+            })
+            await recordAudit(
+              {
+                action: 'user.locked',
+                target: { type: 'user', id: lockoutUser.id },
+                metadata: {
+                  failedAttempts,
+                  lockedUntil: lockedUntil.toISOString(),
+                },
+              },
+              auditSource(ctx.headers)
+            )
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,194 @@
+import { eq, lte } from 'drizzle-orm'
+
+import db from '@/db'
+import { accountLockout } from '@/db/schema/account-lockout-schema'
+import { user } from '@/db/schema/auth-schema'
+
+import { onShutdown, onStart } from '@/lib/lifecycle'
+import { logger } from '@/lib/logger'
+import { registerUserData } from '@/lib/user-data'
+
+// Failures allowed before each further attempt has to wait
+const DELAY_AFTER = 3
+// Wait after the first delayed failure, doubled by each one after it
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 60_000
+// Failures that lock the account, and for how long
+const LOCK_AFTER = 10
+export const LOCK_DURATION_MS = 15 * 60 * 1000
+// Failures further apart than this count from 1 again
+const RESET_AFTER_MS = 60 * 60 * 1000
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+export interface SignInBlock {
+  reason: 'locked' | 'delayed'
+  /**
+   * When the next password sign-in is accepted
+   */
+  retryAt: Date
+}
+
+export interface FailedSignIn {
+  failedAttempts: number
+  /**
+   * Set when this failure locked the account
+   */
+  lockedUntil: Date | null
+}
+
+const delayFor = (failedAttempts: number) =>
+  failedAttempts < DELAY_AFTER
+    ? 0
+    : Math.min(
+        BASE_DELAY_MS * 2 ** (failedAttempts - DELAY_AFTER),
+        MAX_DELAY_MS
+      )
+
+/**
+ * Whether password sign-ins with an email are refused for now, checked
+ * before the password so guesses made meanwhile tell nothing
+ */
+export async function signInBlock(email: string): Promise<SignInBlock | null> {
+  const [row] = await db
+    .select()
+    .from(accountLockout)
+    .where(eq(accountLockout.email, email))
+  if (!row) return null
+
+  const now = Date.now()
+  if (row.lockedUntil && row.lockedUntil.getTime() > now) {
+    return { reason: 'locked', retryAt: row.lockedUntil }
+  }
+  const retryAt = row.lastFailedAt.getTime() + delayFor(row.failedAttempts)
+  return retryAt > now
+    ? { reason: 'delayed', retryAt: new Date(retryAt) }
+    : null
+}
+
+/**
+ * Count a failed sign-in with an email, locking it once too many follow
+ * each other
+ * Failures after a lockout has expired lock it again at once
+ */
+export async function recordFailedSignIn(email: string): Promise<FailedSignIn> {
+  const now = new Date()
+
+  return db.transaction(async (tx) => {
+    // Creates the row first so concurrent failures queue on its lock
+    await tx
+      .insert(accountLockout)
+      .values({ email, failedAttempts: 0, lastFailedAt: now })
+      .onConflictDoNothing()
+    const [row] = await tx
+      .select()
+      .from(accountLockout)
+      .where(eq(accountLockout.email, email))
+      .for('update')
+
+    const stale = now.getTime() - row.lastFailedAt.getTime() > RESET_AFTER_MS
+    const failedAttempts = stale ? 1 : row.failedAttempts + 1
+    const lockedUntil =
+      failedAttempts >= LOCK_AFTER
+        ? new Date(now.getTime() + LOCK_DURATION_MS)
+        : null
+
+    await tx
+      .update(accountLockout)
+      .set({ failedAttempts, lastFailedAt: now, lockedUntil })
+      .where(eq(accountLockout.email, email))
+    return { failedAttempts, lockedUntil }
+  })
+}
+
+/**
+ * Forget the failed sign-ins with an email, after a successful sign-in or to
+ * unlock the account
+ * Returns whether there were any
+ */
+export async function clearFailedSignIns(email: string): Promise<boolean> {
+  const deleted = await db
+    .delete(accountLockout)
+    .where(eq(accountLockout.email, email.toLowerCase()))
+    .returning({ email: accountLockout.email })
+  return deleted.length > 0
+}
+
+/**
+ * Forget the failed sign-ins with the email of a user, lifting a lockout
+ * Returns whether there were any
+ */
+export async function unlockUser(userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ email: user.email })
+    .from(user)
+    .where(eq(user.id, userId))
+  return row ? clearFailedSignIns(row.email) : false
+}
+
+/**
+ * Delete the failed sign-ins older than the reset window, returns how many
+ * emails were forgotten
+ * Lockouts and delays end well before it, so nothing is lifted early
+ */
+export async function purgeFailedSignIns(now = new Date()): Promise<number> {
+  const purged = await db
+    .delete(accountLockout)
+    .where(
+      lte(accountLockout.lastFailedAt, new Date(now.getTime() - RESET_AFTER_MS))
+    )
+    .returning({ email: accountLockout.email })
+  return purged.length
+}
+
+/**
+ * Purge failed sign-ins hourly until the returned function is called, which
+ * waits for the current run to finish
+ */
+export function startFailedSignInPurger(
+  intervalMs = PURGE_INTERVAL_MS
+): () => Promise<void> {
+  let running: Promise<void> | undefined
+
+  const run = () => {
+    running ??= purgeFailedSignIns()
+      .then(() => undefined)
+      .catch((err: unknown) => {
+        logger.error('Failed sign-in purge failed', err)
+      })
+      .finally(() => {
+        running = undefined
+      })
+  }
+
+  const timer = setInterval(run, intervalMs)
+  run()
+
+  return async () => {
+    clearInterval(timer)
+    await running
+  }
+}
+
+// Only the server runs the purger, tests call purgeFailedSignIns()
+onStart('failedSignIns', () => {
+  onShutdown('failedSignIns', startFailedSignInPurger())
+})
+
+// Keyed by email rather than user, nothing removes it with the account
+registerUserData('failedSignIns', {
+  export: async ({ email }) => {
+    const [row] = await db
+      .select({
+        failedAttempts: accountLockout.failedAttempts,
+        lastFailedAt: accountLockout.lastFailedAt,
+        lockedUntil: accountLockout.lockedUntil,
+      })
+      .from(accountLockout)
+      .where(eq(accountLockout.email, email.toLowerCase()))
+    return row ?? null
+  },
+  anonymize: async ({ email }) => {
+    await clearFailedSignIns(email)
+  },
+})
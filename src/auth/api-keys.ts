@@ -0,0 +1,215 @@
+import { and, desc, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { apiKey } from '@/db/schema/api-key-schema'
+import { member, user } from '@/db/schema/auth-schema'
+
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { registerUserData } from '@/lib/user-data'
+
+import type { Permissions } from './permissions'
+import { isGranted, userPermissions } from './roles'
+
+/**
+ * Start of every key, tells API keys apart from other bearer tokens
+ * (e.g. `METRICS_TOKEN`)
+ */
+export const API_KEY_PREFIX = 'htz_'
+
+// Characters of the key kept in `api_key.prefix`
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+
+// `last_used_at` is written at most this often per key
+const LAST_USED_PRECISION_MS = 60_000
+
+type User = typeof user.$inferSelect
+
+/**
+ * API key a request was authenticated with, available as `c.get('apiKey')`
+ */
+export interface ApiKeyPrincipal {
+  id: string
+  name: string
+  userId: string
+  organizationId: string | null
+  scopes: Permissions
+  rateLimit: number | null
+}
+
+export interface ApiKeyDetails {
+  id: string
+  name: string
+  prefix: string
+  organizationId: string | null
+  scopes: Permissions
+  rateLimit: number | null
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  createdAt: Date
+}
+
+export interface ApiKeyInput {
+  name: string
+  scopes: Permissions
+  organizationId?: string | null
+  rateLimit?: number | null
+  expiresAt?: Date | null
+}
+
+const details = {
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  organizationId: apiKey.organizationId,
+  scopes: apiKey.scopes,
+  rateLimit: apiKey.rateLimit,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+}
+
+const hashKey = (key: string) =>
+  new Bun.CryptoHasher('sha256').update(key).digest('hex')
+
+/**
+ * Key presented in `X-API-Key`, or in `Authorization: Bearer` when it
+ * carries the API key prefix
+ */
+export function presentedApiKey(headers: Headers): string | null {
+  const header = headers.get('x-api-key')
+  if (header) return header.trim()
+
+  const [scheme, token] = headers.get('authorization')?.split(' ') ?? []
+  return scheme?.toLowerCase() === 'bearer' && token?.startsWith(API_KEY_PREFIX)
+    ? token
+    : null
+}
+
+/**
+ * Resolve a presented key to its principal and user
+ * Null for unknown and expired keys, and keys of banned users
+ */
+export async function verifyApiKey(
+  key: string
+): Promise<{ apiKey: ApiKeyPrincipal; user: User } | null> {
+  const [row] = await db
+    .select({ key: apiKey, user })
+    .from(apiKey)
+    .innerJoin(user, eq(user.id, apiKey.userId))
+    .where(eq(apiKey.keyHash, hashKey(key)))
+  if (!row) return null
+
+  const now = new Date()
+  const { key: found, user: owner } = row
+  if (found.expiresAt && found.expiresAt <= now) return null
+  if (owner.banned && (!owner.banExpires || owner.banExpires > now)) {
+    return null
+  }
+
+  if (
+    !found.lastUsedAt ||
+    now.getTime() - found.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS
+  ) {
+    await db
+      .update(apiKey)
+      .set({ lastUsedAt: now })
+      .where(eq(apiKey.id, found.id))
+  }
+
+  return {
+    apiKey: {
+      id: found.id,
+      name: found.name,
+      userId: found.userId,
+      organizationId: found.organizationId,
+      scopes: found.scopes,
+      rateLimit: found.rateLimit,
+    },
+    user: owner,
+  }
+}
+
+/**
+ * Keys created by a user, newest first, without their secret
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeyDetails[]> {
+  return db
+    .select(details)
+    .from(apiKey)
+    .where(eq(apiKey.userId, userId))
+    .orderBy(desc(apiKey.createdAt))
+}
+
+/**
+ * Create a key for `userId`, scopes can't exceed the user's permissions and
+ * organization keys require a membership
+ * The returned `key` is not stored and can't be shown again
+ */
+export async function createApiKey(
+  userId: string,
+  input: ApiKeyInput
+): Promise<ApiKeyDetails & { key: string }> {
+  const issues = []
+  if (!isGranted(await userPermissions(userId), input.scopes)) {
+    issues.push({
+      location: 'body' as const,
+      path: 'scopes',
+      message: 'Scopes exceed your permissions',
+    })
+  }
+  if (input.organizationId) {
+    const [membership] = await db
+      .select({ id: member.id })
+      .from(member)
+      .where(
+        and(
+          eq(member.userId, userId),
+          eq(member.organizationId, input.organizationId)
+        )
+      )
+    if (!membership) {
+      issues.push({
+        location: 'body' as const,
+        path: 'organizationId',
+        message: 'Not a member of this organization',
+      })
+    }
+  }
+  if (issues.length) throw new ValidationError(issues)
+
+  const secret = Buffer.from(crypto.getRandomValues(new Uint8Array(32)))
+  const key = `${API_KEY_PREFIX}${secret.toString('base64url')}`
+  const [created] = await db
+    .insert(apiKey)
+    .values({
+      name: input.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      userId,
+      organizationId: input.organizationId,
+      scopes: input.scopes,
+      rateLimit: input.rateLimit,
+      expiresAt: input.expiresAt,
+    })
+    .returning(details)
+
+  return { ...created, key }
+}
+
+/**
+ * Delete one of a user's keys, it stops working at once
+ */
+export async function revokeApiKey(userId: string, id: string): Promise<void> {
+  const deleted = await db
+    .delete(apiKey)
+    .where(and(eq(apiKey.id, id), eq(apiKey.userId, userId)))
+    .returning({ id: apiKey.id })
+  if (!deleted.length) throw new NotFoundError('API key not found')
+}
+
+registerUserData('apiKeys', {
+  export: (user) => listApiKeys(user.id),
+  anonymize: async (user) => {
+    await db.delete(apiKey).where(eq(apiKey.userId, user.id))
+  },
+})
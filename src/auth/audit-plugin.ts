@@ -0,0 +1,239 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import {
+  createAuthMiddleware,
+  getSessionFromCtx,
+  isAPIError,
+} from 'better-auth/api'
+
+import { recordAudit, type AuditEvent, type AuditSource } from '@/lib/audit'
+import { CLIENT_IP_HEADER } from '@/lib/client-ip'
+import { REQUEST_ID_HEADER } from '@/lib/utils'
+
+type HookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0]
+
+type UserRow = Record<string, unknown> & { id: string }
+
+/**
+ * Endpoints that end with a new session for the user signing in
+ */
+const SIGN_IN_PATHS = [
+  '/sign-in/email',
+  '/two-factor/verify-totp',
+  '/two-factor/verify-backup-code',
+  '/passkey/verify-authentication',
+  // Signs in after verifying, `autoSignInAfterVerification`
+  '/verify-email',
+]
+
+/**
+ * Admin plugin endpoints acting on a user, with the user fields whose
+ * change they record
+ */
+const ADMIN_ACTIONS: Record<string, { action: string; fields: string[] }> = {
+  '/admin/create-user': {
+    action: 'user.created',
+    fields: ['name', 'email', 'role'],
+  },
+  '/admin/update-user': {
+    action: 'user.updated',
+    fields: ['name', 'email', 'emailVerified', 'image', 'role'],
+  },
+  '/admin/set-role': { action: 'user.role_changed', fields: ['role'] },
+  '/admin/ban-user': {
+    action: 'user.banned',
+    fields: ['banned', 'banReason', 'banExpires'],
+  },
+  '/admin/unban-user': {
+    action: 'user.unbanned',
+    fields: ['banned', 'banReason', 'banExpires'],
+  },
+  '/admin/set-user-password': { action: 'user.password_set', fields: [] },
+  '/admin/revoke-user-sessions': {
+    action: 'user.sessions_revoked',
+    fields: [],
+  },
+  '/admin/remove-user': {
+    action: 'user.removed',
+    fields: ['name', 'email', 'role'],
+  },
+  '/admin/impersonate-user': { action: 'user.impersonated', fields: [] },
+}
+
+const pick = (row: UserRow | null | undefined, fields: string[]) =>
+  row ? Object.fromEntries(fields.map((field) => [field, row[field]])) : null
+
+/**
+ * Request details of an endpoint call, the IP and request ID are set by
+ * the auth router (src/routes/auth.ts)
+ */
+export const auditSource = (
+  headers: Headers | undefined,
+  session?: { userId: string; impersonatedBy?: string | null } | null
+): AuditSource => ({
+  actorId: session?.userId,
+  impersonatorId: session?.impersonatedBy,
+  ipAddress: headers?.get(CLIENT_IP_HEADER),
+  userAgent: headers?.get('user-agent'),
+  requestId: headers?.get(REQUEST_ID_HEADER),
+})
+
+const signInFailed = async (ctx: HookContext, error: unknown) => {
+  const email =
+    typeof ctx.body?.email === 'string' ? ctx.body.email.toLowerCase() : null
+  const found = email
+    ? await ctx.context.internalAdapter.findUserByEmail(email)
+    : null
+
+  await recordAudit(
+    {
+      action: 'user.sign_in_failed',
+      target: found ? { type: 'user', id: found.user.id } : null,
+      metadata: {
+        method: ctx.path,
+        email,
+        reason: isAPIError(error) ? (error.body?.code ?? error.message) : null,
+      },
+    },
+    auditSource(ctx.headers)
+  )
+}
+
+const adminAction = async (ctx: HookContext, target: UserRow | null) => {
+  const { action, fields } = ADMIN_ACTIONS[ctx.path]
+  const returned = ctx.context.returned as { user?: UserRow } | undefined
+  const userId = target?.id ?? returned?.user?.id
+  const after =
+    ctx.path === '/admin/remove-user' || !userId
+      ? null
+      : ((await ctx.context.internalAdapter.findUserById(userId)) as UserRow)
+
+  const event: AuditEvent = {
+    action,
+    target: userId ? { type: 'user', id: userId } : null,
+    before: pick(target, fields),
+    after: pick(after, fields),
+  }
+  if (ctx.path === '/admin/impersonate-user') {
+    event.metadata = { sessionId: ctx.context.newSession?.session.id }
+  }
+  await recordAudit(
+    event,
+    auditSource(ctx.headers, ctx.context.session?.session)
+  )
+}
+
+/**
+ * Record sign-ins, sign-outs and admin actions on users in the audit log
+ * Goes after the two-factor plugin, whose hook turns password sign-ins
+ * into a second-factor challenge
+ */
+export const auditLogPlugin = () =>
+  ({
+    id: 'audit-log',
+    init: () => ({
+      options: {
+        databaseHooks: {
+          session: {
+            delete: {
+              after: async (session, ctx) => {
+                if (ctx?.path !== '/sign-out') return
+                await recordAudit(
+                  {
+                    action: 'user.signed_out',
+                    target: { type: 'user', id: session.userId },
+                  },
+                  auditSource(ctx.headers, session)
+                )
+              },
+            },
+          },
+        },
+      },
+    }),
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => Object.hasOwn(ADMIN_ACTIONS, ctx.path ?? ''),
+          handler: createAuthMiddleware(async (ctx) => {
+            // Loads the acting admin for the after hook, the admin plugin
+            // then reuses it
+            await getSessionFromCtx(ctx)
+            const userId = ctx.body?.userId
+            const target =
+              typeof userId === 'string'
+                ? await ctx.context.internalAdapter.findUserById(userId)
+                : null
+            return { context: { auditTarget: target } }
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) =>
+            SIGN_IN_PATHS.includes(ctx.path ?? '') ||
+            ctx.path === '/sign-up/email' ||
+            ctx.path === '/admin/stop-impersonating' ||
+            Object.hasOwn(ADMIN_ACTIONS, ctx.path ?? ''),
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned
+            if (isAPIError(returned)) {
+              if (SIGN_IN_PATHS.includes(ctx.path)) {
+                await signInFailed(ctx, returned)
+              }
+              return
+            }
+
+            if (Object.hasOwn(ADMIN_ACTIONS, ctx.path)) {
+              const { auditTarget } = ctx as { auditTarget?: UserRow | null }
+              await adminAction(ctx, auditTarget ?? null)
+              return
+            }
+
+            if (ctx.path === '/admin/stop-impersonating') {
+              // The impersonation session, read by the endpoint
+              const impersonation = ctx.context.session?.session
+              if (!impersonation) return
+              await recordAudit(
+                {
+                  action: 'user.impersonation_stopped',
+                  target: { type: 'user', id: impersonation.userId },
+                  metadata: { sessionId: impersonation.id },
+                },
+                auditSource(ctx.headers, impersonation)
+              )
+              return
+            }
+
+            const session = ctx.context.newSession?.session
+            if (ctx.path === '/sign-up/email') {
+              // No session yet when the email must be verified first
+              const { user } = returned as { user: UserRow }
+              await recordAudit(
+                {
+                  action: 'user.signed_up',
+                  target: { type: 'user', id: user.id },
+                },
+                { ...auditSource(ctx.headers, session), actorId: user.id }
+              )
+              return
+            }
+
+            // Password sign-ins of users with two-factor authentication
+            // end with a challenge, its verification records the sign-in
+            const challenged = (
+              returned as { twoFactorRedirect?: boolean } | undefined
+            )?.twoFactorRedirect
+            if (!session || challenged) return
+            await recordAudit(
+              {
+                action: 'user.signed_in',
+                target: { type: 'user', id: session.userId },
+                metadata: { method: ctx.path, sessionId: session.id },
+              },
+              auditSource(ctx.headers, session)
+            )
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
@@ -1,18 +1,199 @@
+import { and, eq } from 'drizzle-orm'
 import { Context } from 'hono'
 import { createMiddleware } from 'hono/factory'
-import { HTTPException } from 'hono/http-exception'
+
+import db from '@/db'
+import { member, organization } from '@/db/schema/auth-schema'
 
 import { auth } from '@/lib/auth'
+import { AppError, ForbiddenError, UnauthorizedError } from '@/lib/errors'
+import { authDeniedTotal } from '@/lib/metrics'
+import { withOpenApi } from '@/lib/openapi'
+import { withSpan } from '@/lib/tracing'
+
+import { presentedApiKey, verifyApiKey } from './api-keys'
+import type { PermissionRequirement, Permissions } from './permissions'
+import { isGranted, userPermissions, userRoles } from './roles'
+import { isSessionRevoked } from './session-revocations'
+
+// Roles and permissions of the user making a request, read once per request
+const grantedRoles = new WeakMap<Context, Promise<string[]>>()
+const grantedPermissions = new WeakMap<Context, Promise<Permissions>>()
+
+/**
+ * Check permissions against the user's roles, built-in or stored in the
+ * database (see src/auth/roles.ts)
+ * Lookup failures (e.g. database outage) become a 500, never a denial
+ */
+const hasPermissions = async (
+  c: Context,
+  userId: string,
+  permissions: Permissions
+): Promise<boolean> => {
+  let granted = grantedPermissions.get(c)
+  if (!granted) {
+    granted = withSpan('auth.userPermissions', () =>
+      userPermissions(userId)
+    ).catch((err: unknown) => {
+      throw new AppError(500, 'Permission check failed', {
+        code: 'permission-check-failed',
+        cause: err,
+      })
+    })
+    grantedPermissions.set(c, granted)
+  }
+  // API keys only get the part of their user's permissions they're scoped to
+  const scopes = c.get('apiKey')?.scopes
+  return (
+    isGranted(await granted, permissions) &&
+    (!scopes || isGranted(scopes, permissions))
+  )
+}
 
-const AUTH_MESSAGE = {
-  UNAUTHORIZED: 'Unauthorized Access',
-  FORBIDDEN: 'Insufficient permissions',
-} as const
+/**
+ * Roles checked by role guards, read from the database rather than the
+ * cached session so demoted users lose access at once
+ * None for API keys: they are limited to their scopes, so only permission
+ * guards let them through
+ */
+const rolesOf = (c: Context, userId: string): Promise<string[]> => {
+  if (c.get('apiKey')) return Promise.resolve([])
+
+  let roles = grantedRoles.get(c)
+  if (!roles) {
+    roles = withSpan('auth.userRoles', () => userRoles(userId)).catch(
+      (err: unknown) => {
+        throw new AppError(500, 'Role check failed', {
+          code: 'role-check-failed',
+          cause: err,
+        })
+      }
+    )
+    grantedRoles.set(c, roles)
+  }
+  return roles
+}
+
+/**
+ * Evaluate a requirement, stopping at the first lookup that decides it
+ */
+const satisfies = async (
+  c: Context,
+  userId: string,
+  requirement: PermissionRequirement
+): Promise<boolean> => {
+  if ('any' in requirement) {
+    for (const option of requirement.any) {
+      if (await satisfies(c, userId, option)) return true
+    }
+    return false
+  }
+
+  if ('all' in requirement) {
+    for (const condition of requirement.all) {
+      if (!(await satisfies(c, userId, condition))) return false
+    }
+    return true
+  }
+
+  return hasPermissions(c, userId, requirement)
+}
+
+/**
+ * Build the 401/403 error for a guard and count it
+ */
+const deny = (guard: string, status: 401 | 403, message?: string) => {
+  authDeniedTotal.inc({ guard, status: String(status) })
+  return status === 401
+    ? new UnauthorizedError(message)
+    : new ForbiddenError(message)
+}
+
+export interface RoleGuardOptions {
+  /**
+   * Only let sessions through that passed a second factor (TOTP, backup
+   * code or passkey) within the session `freshAge`
+   * @default false
+   */
+  requireSecondFactor?: boolean
+}
+
+/**
+ * Throw a 403 unless the session passed a second factor recently, clients
+ * sign in again with it to continue
+ */
+const assertSecondFactor = (c: Context, guard: string) => {
+  const verifiedAt = c.get('session')?.secondFactorVerifiedAt
+  const freshAge = (auth.options.session?.freshAge ?? 0) * 1000
+
+  if (!verifiedAt || Date.now() - new Date(verifiedAt).getTime() > freshAge) {
+    authDeniedTotal.inc({ guard, status: '403' })
+    throw new AppError(403, 'Sign in again with a second factor to continue', {
+      code: 'second-factor-required',
+    })
+  }
+}
+
+/**
+ * Membership of `userId` in `organizationId`, null when not a member
+ */
+const findMembership = (userId: string, organizationId: string) =>
+  withSpan('auth.organizationMember', async () => {
+    const [row] = await db
+      .select({
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        memberId: member.id,
+        role: member.role,
+      })
+      .from(member)
+      .innerJoin(organization, eq(organization.id, member.organizationId))
+      .where(
+        and(
+          eq(member.userId, userId),
+          eq(member.organizationId, organizationId)
+        )
+      )
+    return row ?? null
+  })
 
 export const authMiddleware = async (c: Context, next: () => Promise<void>) => {
-  const session = await auth.api.getSession({ headers: c.req.raw.headers })
+  // Only set once orgGuard() has checked the membership
+  c.set('organization', null)
 
-  if (!session) {
+  // A key that doesn't verify is rejected rather than treated as anonymous,
+  // so misconfigured clients notice
+  const key = presentedApiKey(c.req.raw.headers)
+  if (key) {
+    const verified = await withSpan('auth.verifyApiKey', (span) =>
+      verifyApiKey(key).then((result) => {
+        span.setAttribute('enduser.id', result?.user.id)
+        return result
+      })
+    )
+    if (!verified) {
+      throw deny('authMiddleware', 401, 'Invalid or expired API key')
+    }
+
+    c.set('user', verified.user)
+    c.set('session', null)
+    c.set('apiKey', verified.apiKey)
+    return next()
+  }
+
+  c.set('apiKey', null)
+
+  const session = await withSpan('auth.getSession', (span) =>
+    auth.api.getSession({ headers: c.req.raw.headers }).then((result) => {
+      span.setAttribute('enduser.id', result?.user.id)
+      return result
+    })
+  )
+
+  // Sessions read from the cookie cache outlive their revocation until it
+  // expires, unless checked here
+  if (!session || (await isSessionRevoked(session.session.id))) {
     c.set('user', null)
     c.set('session', null)
 
@@ -25,86 +206,137 @@ export const authMiddleware = async (c: Context, next: () => Promise<void>) => {
 }
 
 export const authGuard = () => {
-  return createMiddleware(async (c, next) => {
-    const user = c.get('user')
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
 
-    if (!user) {
-      throw new HTTPException(401, { message: AUTH_MESSAGE.UNAUTHORIZED })
-    }
+      if (!user) {
+        throw deny('authGuard', 401)
+      }
 
-    await next()
-  })
+      await next()
+    }),
+    { auth: {} }
+  )
 }
 
-export const adminGuard = () => {
-  return createMiddleware(async (c, next) => {
-    const user = c.get('user')
+/**
+ * Like authGuard(), but rejects API keys: for routes acting on the
+ * session or on credentials, which a leaked key must not reach
+ */
+export const sessionGuard = () => {
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      if (!c.get('user')) {
+        throw deny('sessionGuard', 401)
+      }
+      if (!c.get('session')) {
+        throw deny(
+          'sessionGuard',
+          403,
+          'Sign in to use this endpoint, API keys are not accepted'
+        )
+      }
 
-    if (!user || user.role !== 'admin') {
-      throw new HTTPException(!user ? 401 : 403, {
-        message: !user ? AUTH_MESSAGE.UNAUTHORIZED : AUTH_MESSAGE.FORBIDDEN,
-      })
-    }
+      await next()
+    }),
+    { auth: { schemes: ['cookieAuth'] } }
+  )
+}
 
-    await next()
-  })
+export const adminGuard = (options: RoleGuardOptions = {}) => {
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
+
+      if (!user || !(await rolesOf(c, user.id)).includes('admin')) {
+        throw deny('adminGuard', !user ? 401 : 403)
+      }
+
+      if (options.requireSecondFactor) {
+        assertSecondFactor(c, 'adminGuard')
+      }
+
+      await next()
+    }),
+    // API keys have no roles
+    {
+      auth: {
+        schemes: ['cookieAuth'],
+        roles: ['admin'],
+        secondFactor: options.requireSecondFactor,
+      },
+    }
+  )
 }
 
 /**
  * Role-based guard that checks if user has specific role(s)
+ * Users with several roles pass when any of them is allowed
  * @param allowedRoles - Single role or array of roles that can access the route
+ * @example
+ * roleGuard('billing')
+ * roleGuard(['admin', 'billing'], { requireSecondFactor: true })
  */
-export const roleGuard = (allowedRoles: string | string[]) => {
-  return createMiddleware(async (c, next) => {
-    const user = c.get('user')
+export const roleGuard = (
+  allowedRoles: string | string[],
+  options: RoleGuardOptions = {}
+) => {
+  const roles = Array.isArray(allowedRoles) ? allowedRoles : [allowedRoles]
 
-    if (!user) {
-      throw new HTTPException(401, { message: AUTH_MESSAGE.UNAUTHORIZED })
-    }
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
 
-    const roles = Array.isArray(allowedRoles) ? allowedRoles : [allowedRoles]
-    const userRole = user.role || 'user'
+      if (!user) {
+        throw deny('roleGuard', 401)
+      }
 
-    if (!roles.includes(userRole)) {
-      throw new HTTPException(403, { message: AUTH_MESSAGE.FORBIDDEN })
-    }
+      if (!(await rolesOf(c, user.id)).some((role) => roles.includes(role))) {
+        throw deny('roleGuard', 403)
+      }
 
-    await next()
-  })
+      if (options.requireSecondFactor) {
+        assertSecondFactor(c, 'roleGuard')
+      }
+
+      await next()
+    }),
+    {
+      auth: {
+        schemes: ['cookieAuth'],
+        roles,
+        secondFactor: options.requireSecondFactor,
+      },
+    }
+  )
 }
 
 /**
  * Permission-based guard that checks if user has specific permissions
- * @param permissions - Object with resource and actions to check
+ * @param permissions - Actions required per resource, or `any`/`all`
+ * combinations of them
  * @example
- * permissionGuard({ patients: ['create', 'read'] })
+ * permissionGuard({ dashboard: ['read'] })
+ * permissionGuard({ any: [{ user: ['list'] }, { session: ['list'] }] })
  */
-export const permissionGuard = (permissions: Record<string, string[]>) => {
-  return createMiddleware(async (c, next) => {
-    const user = c.get('user')
+export const permissionGuard = (permissions: PermissionRequirement) => {
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
 
-    if (!user) {
-      throw new HTTPException(401, { message: AUTH_MESSAGE.UNAUTHORIZED })
-    }
-
-    try {
-      // Check user permissions using better-auth API
-      const hasPermission = await auth.api.userHasPermission({
-        body: {
-          userId: user.id,
-          permissions,
-        },
-      })
+      if (!user) {
+        throw deny('permissionGuard', 401)
+      }
 
-      if (!hasPermission) {
-        throw new HTTPException(403, { message: AUTH_MESSAGE.FORBIDDEN })
+      if (!(await satisfies(c, user.id, permissions))) {
+        throw deny('permissionGuard', 403)
       }
 
       await next()
-    } catch {
-      throw new HTTPException(403, { message: AUTH_MESSAGE.FORBIDDEN })
-    }
-  })
+    }),
+    { auth: { permissions } }
+  )
 }
 
 /**
@@ -115,40 +347,77 @@ export const permissionGuard = (permissions: Record<string, string[]>) => {
  */
 export const roleOrPermissionGuard = (
   allowedRoles: string | string[],
-  permissions: Record<string, string[]>
+  permissions: PermissionRequirement
 ) => {
-  return createMiddleware(async (c, next) => {
-    const user = c.get('user')
+  const roles = Array.isArray(allowedRoles) ? allowedRoles : [allowedRoles]
 
-    if (!user) {
-      throw new HTTPException(401, { message: AUTH_MESSAGE.UNAUTHORIZED })
-    }
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
+
+      if (!user) {
+        throw deny('roleOrPermissionGuard', 401)
+      }
 
-    const roles = Array.isArray(allowedRoles) ? allowedRoles : [allowedRoles]
-    const userRole = user.role || 'user'
+      // Users with one of the allowed roles skip the permission check
+      if (
+        !(await rolesOf(c, user.id)).some((role) => roles.includes(role)) &&
+        !(await satisfies(c, user.id, permissions))
+      ) {
+        throw deny('roleOrPermissionGuard', 403)
+      }
 
-    // If user has one of the allowed roles, proceed
-    if (roles.includes(userRole)) {
       await next()
-      return
-    }
+    }),
+    { auth: { roles, permissions } }
+  )
+}
 
-    // Otherwise, check permissions
-    try {
-      const hasPermission = await auth.api.userHasPermission({
-        body: {
-          userId: user.id,
-          permissions,
-        },
-      })
+/**
+ * Organization guard that requires an active organization on the session
+ * and a membership in it, read from the database on every request so
+ * removed members lose access at once
+ * Sets `c.get('organization')` for handlers to scope queries by tenant
+ * @param allowedRoles - Organization role(s) allowed, any member when omitted
+ * @example
+ * orgGuard()
+ * orgGuard(['owner', 'admin'])
+ */
+export const orgGuard = (allowedRoles?: string | string[]) => {
+  const roles =
+    allowedRoles === undefined
+      ? undefined
+      : Array.isArray(allowedRoles)
+        ? allowedRoles
+        : [allowedRoles]
 
-      if (!hasPermission) {
-        throw new HTTPException(403, { message: AUTH_MESSAGE.FORBIDDEN })
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const user = c.get('user')
+
+      if (!user) {
+        throw deny('orgGuard', 401)
+      }
+
+      const organizationId =
+        c.get('apiKey')?.organizationId ??
+        c.get('session')?.activeOrganizationId
+      const membership = organizationId
+        ? await findMembership(user.id, organizationId)
+        : null
+
+      // Better Auth stores several organization roles comma-separated too
+      const memberRoles = membership?.role.split(',').map((role) => role.trim())
+      if (
+        !membership ||
+        (roles && !memberRoles?.some((role) => roles.includes(role)))
+      ) {
+        throw deny('orgGuard', 403)
       }
 
+      c.set('organization', membership)
       await next()
-    } catch {
-      throw new HTTPException(403, { message: AUTH_MESSAGE.FORBIDDEN })
-    }
-  })
+    }),
+    { auth: { organization: { roles } } }
+  )
 }
@@ -0,0 +1,148 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+  isAPIError,
+} from 'better-auth/api'
+
+import { needsRehash } from '@/lib/password'
+
+import {
+  checkPassword,
+  rememberPassword,
+  type PasswordOwner,
+} from './password-policy'
+
+type HookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0]
+
+type User = { id: string; email: string; name: string }
+
+/**
+ * Endpoints setting a password, with the user it is for when known
+ */
+const PASSWORD_ENDPOINTS: Record<
+  string,
+  {
+    password: string
+    user: (ctx: HookContext) => Promise<User | null>
+  }
+> = {
+  '/sign-up/email': { password: 'password', user: async () => null },
+  '/admin/create-user': { password: 'password', user: async () => null },
+  '/change-password': {
+    password: 'newPassword',
+    user: async (ctx) => (await getSessionFromCtx(ctx))?.user ?? null,
+  },
+  '/reset-password': {
+    password: 'newPassword',
+    user: async (ctx) => {
+      const token: unknown = ctx.body?.token ?? ctx.query?.token
+      if (typeof token !== 'string') return null
+      const verification =
+        await ctx.context.internalAdapter.findVerificationValue(
+          `reset-password:${token}`
+        )
+      return verification
+        ? await ctx.context.internalAdapter.findUserById(verification.value)
+        : null
+    },
+  },
+  '/admin/set-user-password': {
+    password: 'newPassword',
+    user: async (ctx) =>
+      typeof ctx.body?.userId === 'string'
+        ? await ctx.context.internalAdapter.findUserById(ctx.body.userId)
+        : null,
+  },
+}
+
+const credentialHash = async (ctx: HookContext, userId: string) => {
+  const accounts = await ctx.context.internalAdapter.findAccounts(userId)
+  return (
+    accounts.find((row) => row.providerId === 'credential')?.password ?? null
+  )
+}
+
+/**
+ * Upgrade the hash of a password that just verified when it was made with
+ * older parameters or bcrypt
+ */
+const rehash = async (ctx: HookContext) => {
+  if (typeof ctx.body?.email !== 'string') return
+  const found = await ctx.context.internalAdapter.findUserByEmail(
+    ctx.body.email.toLowerCase()
+  )
+  if (!found) return
+
+  const stored = await credentialHash(ctx, found.user.id)
+  if (!stored || !needsRehash(stored)) return
+  await ctx.context.internalAdapter.updatePassword(
+    found.user.id,
+    await ctx.context.password.hash(ctx.body.password as string)
+  )
+}
+
+/**
+ * Apply the password policy (src/auth/password-policy.ts) wherever a
+ * password is set, keep the replaced ones for the history and upgrade
+ * outdated hashes on sign-in
+ */
+export const passwordPlugin = () =>
+  ({
+    id: 'password-policy',
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => Object.hasOwn(PASSWORD_ENDPOINTS, ctx.path ?? ''),
+          handler: createAuthMiddleware(async (ctx) => {
+            const endpoint = PASSWORD_ENDPOINTS[ctx.path]
+            const password: unknown = ctx.body?.[endpoint.password]
+            // Missing passwords are the endpoint's to reject
+            if (typeof password !== 'string') return
+
+            const user = await endpoint.user(ctx)
+            const owner: PasswordOwner = user
+              ? { userId: user.id, email: user.email, name: user.name }
+              : {
+                  email: ctx.body?.email as string | undefined,
+                  name: ctx.body?.name as string | undefined,
+                }
+            const violation = await checkPassword(password, owner)
+            if (violation) throw new APIError('BAD_REQUEST', violation)
+
+            const previous = user ? await credentialHash(ctx, user.id) : null
+            return {
+              context: {
+                replacedPassword: previous ? { user, previous } : null,
+              },
+            }
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) =>
+            ctx.path === '/sign-in/email' ||
+            Object.hasOwn(PASSWORD_ENDPOINTS, ctx.path ?? ''),
+          handler: createAuthMiddleware(async (ctx) => {
+            if (isAPIError(ctx.context.returned)) return
+
+            if (ctx.path === '/sign-in/email') {
+              await rehash(ctx)
+              return
+            }
+            const { replacedPassword } = ctx as {
+              replacedPassword?: { user: User; previous: string } | null
+            }
+            if (replacedPassword) {
+              await rememberPassword(
+                replacedPassword.user.id,
+                replacedPassword.previous
+              )
+            }
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,195 @@
+import { and, asc, desc, eq, notInArray } from 'drizzle-orm'
+
+import db from '@/db'
+import { account } from '@/db/schema/auth-schema'
+import { passwordHistory } from '@/db/schema/password-history-schema'
+
+import { isBreachedPassword } from '@/lib/breached-passwords'
+import { verifyPassword } from '@/lib/password'
+import { registerUserData } from '@/lib/user-data'
+
+import { getEnv } from '@/env'
+
+// Bits of entropy a password needs for scores 1 to 4
+const SCORE_THRESHOLDS = [25, 40, 60, 80]
+
+// Parts of an email or name shorter than this are too common to refuse
+const MIN_PERSONAL_PART = 3
+
+export interface PasswordViolation {
+  code:
+    | 'PASSWORD_TOO_SHORT'
+    | 'PASSWORD_TOO_WEAK'
+    | 'PASSWORD_CONTAINS_PERSONAL_INFO'
+    | 'PASSWORD_BREACHED'
+    | 'PASSWORD_REUSED'
+  message: string
+}
+
+export interface PasswordOwner {
+  email?: string | null
+  name?: string | null
+  /**
+   * Set for existing users, whose previous passwords can't be reused
+   */
+  userId?: string | null
+}
+
+/**
+ * Strength score from 0 (guessable) to 4 (very strong), from the entropy of
+ * the characters used
+ * Repeated characters and runs like `abc` or `321` barely count, dictionary
+ * words are left to the breached passwords check
+ */
+export function passwordScore(password: string): number {
+  let pool = 0
+  if (/[a-z]/.test(password)) pool += 26
+  if (/[A-Z]/.test(password)) pool += 26
+  if (/\d/.test(password)) pool += 10
+  if (/[^a-zA-Z\d]/.test(password)) pool += 33
+
+  const chars = Array.from(password)
+  const length = chars.reduce((total, char, index) => {
+    if (index === 0) return 1
+    const step = char.codePointAt(0)! - chars[index - 1].codePointAt(0)!
+    return total + (Math.abs(step) <= 1 ? 0.25 : 1)
+  }, 0)
+
+  const bits = length * Math.log2(Math.max(pool, 1))
+  return SCORE_THRESHOLDS.filter((threshold) => bits >= threshold).length
+}
+
+const containsPersonalInfo = (password: string, owner: PasswordOwner) => {
+  const lowered = password.toLowerCase()
+  const email = owner.email?.toLowerCase()
+  const parts = [
+    email,
+    email?.split('@')[0],
+    ...(owner.name?.toLowerCase().split(/\s+/) ?? []),
+  ]
+  return parts.some(
+    (part) => part && part.length >= MIN_PERSONAL_PART && lowered.includes(part)
+  )
+}
+
+/**
+ * The current password hash of a user and the ones before it, newest first
+ */
+const previousHashes = async (
+  userId: string,
+  count: number
+): Promise<string[]> => {
+  if (count === 0) return []
+
+  const [current] = await db
+    .select({ password: account.password })
+    .from(account)
+    .where(
+      and(eq(account.userId, userId), eq(account.providerId, 'credential'))
+    )
+  const older = await db
+    .select({ passwordHash: passwordHistory.passwordHash })
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.id))
+    .limit(count - 1)
+
+  return [current?.password, ...older.map((row) => row.passwordHash)].filter(
+    (hash): hash is string => !!hash
+  )
+}
+
+/**
+ * Check a new password against the policy, returns the first rule it breaks
+ */
+export async function checkPassword(
+  password: string,
+  owner: PasswordOwner = {}
+): Promise<PasswordViolation | null> {
+  const env = getEnv()
+
+  if (password.length < env.PASSWORD_MIN_LENGTH) {
+    return {
+      code: 'PASSWORD_TOO_SHORT',
+      message: `Use at least ${env.PASSWORD_MIN_LENGTH} characters`,
+    }
+  }
+  if (passwordScore(password) < env.PASSWORD_MIN_SCORE) {
+    return {
+      code: 'PASSWORD_TOO_WEAK',
+      message:
+        'Password is too easy to guess, make it longer or mix in other kinds of characters',
+    }
+  }
+  if (containsPersonalInfo(password, owner)) {
+    return {
+      code: 'PASSWORD_CONTAINS_PERSONAL_INFO',
+      message: "Password can't contain your email address or name",
+    }
+  }
+  if (await isBreachedPassword(password)) {
+    return {
+      code: 'PASSWORD_BREACHED',
+      message:
+        'Password appeared in a data breach, choose one you haven’t used elsewhere',
+    }
+  }
+
+  if (owner.userId) {
+    const hashes = await previousHashes(owner.userId, env.PASSWORD_HISTORY)
+    const matches = await Promise.all(
+      hashes.map((hash) => verifyPassword(password, hash))
+    )
+    if (matches.includes(true)) {
+      return {
+        code: 'PASSWORD_REUSED',
+        message: `Choose a password other than your last ${env.PASSWORD_HISTORY}`,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Keep the hash of a password a user just replaced, dropping the ones
+ * older than the history needs
+ */
+export async function rememberPassword(
+  userId: string,
+  passwordHash: string
+): Promise<void> {
+  // The current password is checked from the account itself
+  const keep = getEnv().PASSWORD_HISTORY - 1
+  if (keep > 0) {
+    await db.insert(passwordHistory).values({ userId, passwordHash })
+  }
+
+  const kept = db
+    .select({ id: passwordHistory.id })
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.id))
+    .limit(Math.max(keep, 0))
+  await db
+    .delete(passwordHistory)
+    .where(
+      and(
+        eq(passwordHistory.userId, userId),
+        notInArray(passwordHistory.id, kept)
+      )
+    )
+}
+
+// When passwords were replaced, the hashes stay out
+registerUserData('passwordHistory', {
+  export: (user) =>
+    db
+      .select({ replacedAt: passwordHistory.createdAt })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, user.id))
+      .orderBy(asc(passwordHistory.id)),
+  anonymize: async (user) => {
+    await db.delete(passwordHistory).where(eq(passwordHistory.userId, user.id))
+  },
+})
@@ -4,26 +4,71 @@ import {
   defaultStatements,
   userAc,
 } from 'better-auth/plugins/admin/access'
+import { z } from 'zod'
 
 /*
   Statement shape:
   resource: ['create','read','update','delete','list','export','manage', ...]
   (define all possible actions per resource here)
 */
-const statement = {
+export const statement = {
   ...defaultStatements,
 
   // Dashboard / Overview
-  // dashboard: ['read', 'view'],
+  dashboard: ['read', 'export'],
 } as const
 
+export type Statement = typeof statement
+
+/**
+ * Actions required per resource, only declared resources and actions
+ * type-check
+ *
+ * @example
+ * { dashboard: ['read'], user: ['list'] }
+ */
+export type Permissions = {
+  [R in keyof Statement]?: Statement[R][number][]
+}
+
+/**
+ * Permissions a guard requires, combined with `any` (at least one) and `all`
+ * (every one) to any depth
+ *
+ * @example
+ * { any: [{ dashboard: ['export'] }, { all: [{ user: ['list'] }, { session: ['list'] }] }] }
+ */
+export type PermissionRequirement =
+  | Permissions
+  | { any: PermissionRequirement[] }
+  | { all: PermissionRequirement[] }
+
+/**
+ * Validates permissions sent by clients against the statement
+ */
+export const PermissionsSchema = z.strictObject(
+  Object.fromEntries(
+    Object.entries(statement).map(([resource, actions]) => [
+      resource,
+      z.array(z.enum(actions as readonly [string, ...string[]])).optional(),
+    ])
+  )
+) as unknown as z.ZodType<Permissions>
+
 export const ac = createAccessControl(statement)
 
 export const admin = ac.newRole({
   ...adminAc.statements,
+  dashboard: ['read', 'export'],
 })
 
 export const user = ac.newRole({
   ...userAc.statements,
-  // dashboard: ['read', 'view'],
+  dashboard: ['read'],
 })
+
+/**
+ * Roles defined in code, roles created at runtime live in the database
+ * (see src/auth/roles.ts)
+ */
+export const BUILT_IN_ROLES = { admin, user }
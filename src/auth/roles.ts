@@ -0,0 +1,351 @@
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm'
+
+import db from '@/db'
+import { user } from '@/db/schema/auth-schema'
+import { role, rolePermission } from '@/db/schema/role-schema'
+
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors'
+
+import { BUILT_IN_ROLES, type Permissions } from './permissions'
+
+/**
+ * How long roles read from the database are reused
+ * Changes made through this module apply at once, other replicas see them
+ * once their copy expires
+ */
+const ROLE_CACHE_TTL_MS = 30_000
+
+// Assigned to users without a role, like Better Auth's `defaultRole`
+const DEFAULT_ROLE = 'user'
+
+export interface RoleDetails {
+  name: string
+  description: string | null
+  /**
+   * Defined in src/auth/permissions.ts, can't be changed through the API
+   */
+  builtIn: boolean
+  permissions: Permissions
+}
+
+export interface RoleInput {
+  name: string
+  description?: string | null
+  permissions: Permissions
+}
+
+type Grants = Record<string, string[]>
+
+const isBuiltIn = (name: string): name is keyof typeof BUILT_IN_ROLES =>
+  Object.hasOwn(BUILT_IN_ROLES, name)
+
+const builtInRole = (name: keyof typeof BUILT_IN_ROLES): RoleDetails => ({
+  name,
+  description: null,
+  builtIn: true,
+  permissions: BUILT_IN_ROLES[name].statements as Permissions,
+})
+
+/**
+ * Split a `user.role` value, Better Auth stores several roles
+ * comma-separated
+ */
+export function splitRoles(value: string | null | undefined): string[] {
+  const roles = (value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return roles.length ? roles : [DEFAULT_ROLE]
+}
+
+const loadRoles = async (): Promise<Map<string, RoleDetails>> => {
+  const rows = await db
+    .select({
+      name: role.name,
+      description: role.description,
+      resource: rolePermission.resource,
+      action: rolePermission.action,
+    })
+    .from(role)
+    .leftJoin(rolePermission, eq(rolePermission.roleId, role.id))
+    .orderBy(asc(role.name))
+
+  const roles = new Map<string, RoleDetails>()
+  for (const row of rows) {
+    let details = roles.get(row.name)
+    if (!details) {
+      details = {
+        name: row.name,
+        description: row.description,
+        builtIn: false,
+        permissions: {},
+      }
+      roles.set(row.name, details)
+    }
+    if (row.resource && row.action) {
+      const grants = details.permissions as Grants
+      grants[row.resource] = [...(grants[row.resource] ?? []), row.action]
+    }
+  }
+  return roles
+}
+
+let cache:
+  | { expiresAt: number; roles: Promise<Map<string, RoleDetails>> }
+  | undefined
+
+/**
+ * Roles stored in the database, by name
+ */
+const storedRoles = (): Promise<Map<string, RoleDetails>> => {
+  if (!cache || cache.expiresAt <= Date.now()) {
+    const roles = loadRoles()
+    cache = { expiresAt: Date.now() + ROLE_CACHE_TTL_MS, roles }
+    // Retry on the next call rather than serving the failure until expiry
+    roles.catch(() => {
+      if (cache?.roles === roles) cache = undefined
+    })
+  }
+  return cache.roles
+}
+
+/**
+ * Drop cached roles, the next permission check reads them again
+ */
+export function invalidateRoleCache(): void {
+  cache = undefined
+}
+
+/**
+ * Union of the permissions granted by `roles`, unknown roles grant nothing
+ */
+export async function permissionsForRoles(
+  roles: string[]
+): Promise<Permissions> {
+  const stored = roles.some((name) => !isBuiltIn(name))
+    ? await storedRoles()
+    : new Map<string, RoleDetails>()
+
+  const granted: Grants = {}
+  for (const name of roles) {
+    const details = isBuiltIn(name) ? builtInRole(name) : stored.get(name)
+    for (const [resource, actions] of Object.entries(
+      (details?.permissions ?? {}) as Grants
+    )) {
+      granted[resource] = [
+        ...new Set([...(granted[resource] ?? []), ...actions]),
+      ]
+    }
+  }
+  return granted as Permissions
+}
+
+/**
+ * Current roles of a user, read from the database rather than the session
+ * so role changes apply immediately, none for unknown users
+ */
+export async function userRoles(userId: string): Promise<string[]> {
+  const [row] = await db
+    .select({ role: user.role })
+    .from(user)
+    .where(eq(user.id, userId))
+  return row ? splitRoles(row.role) : []
+}
+
+/**
+ * Permissions granted to a user by its current roles
+ */
+export async function userPermissions(userId: string): Promise<Permissions> {
+  return permissionsForRoles(await userRoles(userId))
+}
+
+/**
+ * Whether every action in `required` is part of `granted`
+ */
+export function isGranted(
+  granted: Permissions,
+  required: Permissions
+): boolean {
+  return Object.entries(required as Grants).every(([resource, actions]) =>
+    actions.every((action) => (granted as Grants)[resource]?.includes(action))
+  )
+}
+
+/**
+ * Built-in roles followed by stored ones
+ * Read without the cache, so admins see changes made on other replicas
+ */
+export async function listRoles(): Promise<RoleDetails[]> {
+  return [
+    ...Object.keys(BUILT_IN_ROLES).map((name) =>
+      builtInRole(name as keyof typeof BUILT_IN_ROLES)
+    ),
+    ...(await loadRoles()).values(),
+  ]
+}
+
+/**
+ * Find a role by name, bypassing the cache like `listRoles()`
+ */
+export async function getRole(name: string): Promise<RoleDetails> {
+  if (isBuiltIn(name)) return builtInRole(name)
+
+  const details = (await loadRoles()).get(name)
+  if (!details) throw new NotFoundError('Role not found')
+  return details
+}
+
+const grantRows = (roleId: string, permissions: Permissions) =>
+  Object.entries(permissions as Grants).flatMap(([resource, actions]) =>
+    [...new Set(actions)].map((action) => ({ roleId, resource, action }))
+  )
+
+const assertEditable = (name: string) => {
+  if (isBuiltIn(name)) {
+    throw new AppError(409, `The built-in "${name}" role can't be changed`, {
+      code: 'built-in-role',
+    })
+  }
+}
+
+export async function createRole(input: RoleInput): Promise<RoleDetails> {
+  if (isBuiltIn(input.name)) throw new ConflictError('Role already exists')
+
+  await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(role)
+      .values({ name: input.name, description: input.description })
+      .onConflictDoNothing({ target: role.name })
+      .returning({ id: role.id })
+    if (!created) throw new ConflictError('Role already exists')
+
+    const grants = grantRows(created.id, input.permissions)
+    if (grants.length) await tx.insert(rolePermission).values(grants)
+  })
+
+  invalidateRoleCache()
+  return getRole(input.name)
+}
+
+/**
+ * Update a role's description and, when given, replace its permissions
+ */
+export async function updateRole(
+  name: string,
+  changes: Partial<Omit<RoleInput, 'name'>>
+): Promise<RoleDetails> {
+  assertEditable(name)
+
+  await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(role)
+      .set({
+        ...(changes.description !== undefined
+          ? { description: changes.description }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(role.name, name))
+      .returning({ id: role.id })
+    if (!updated) throw new NotFoundError('Role not found')
+
+    if (changes.permissions) {
+      await tx
+        .delete(rolePermission)
+        .where(eq(rolePermission.roleId, updated.id))
+      const grants = grantRows(updated.id, changes.permissions)
+      if (grants.length) await tx.insert(rolePermission).values(grants)
+    }
+  })
+
+  invalidateRoleCache()
+  return getRole(name)
+}
+
+/**
+ * Delete a role, refused while users still have it
+ * The role stays locked until deleted, so it can't be assigned meanwhile
+ */
+export async function deleteRole(name: string): Promise<void> {
+  assertEditable(name)
+
+  await db.transaction(async (tx) => {
+    const [found] = await tx
+      .select({ id: role.id })
+      .from(role)
+      .where(eq(role.name, name))
+      .for('update')
+    if (!found) throw new NotFoundError('Role not found')
+
+    const [{ assigned }] = await tx
+      .select({ assigned: sql<number>`count(*)`.mapWith(Number) })
+      .from(user)
+      .where(sql`${name} = any(string_to_array(${user.role}, ','))`)
+    if (assigned > 0) {
+      throw new ConflictError(
+        `Role is assigned to ${assigned} user(s), reassign them first`
+      )
+    }
+
+    await tx.delete(role).where(eq(role.id, found.id))
+  })
+
+  invalidateRoleCache()
+}
+
+/**
+ * Replace a user's roles, every role must exist
+ * Returns the roles the user had before along with the new ones
+ */
+export async function setUserRoles(
+  userId: string,
+  roles: string[]
+): Promise<{ previous: string[]; roles: string[] }> {
+  const names = [...new Set(roles)]
+  const custom = names.filter((name) => !isBuiltIn(name))
+
+  const previous = await db.transaction(async (tx) => {
+    // Shared locks keep the roles from being deleted until assigned
+    const existing = custom.length
+      ? await tx
+          .select({ name: role.name })
+          .from(role)
+          .where(inArray(role.name, custom))
+          .for('share')
+      : []
+
+    const issues = roles.flatMap((name, index) =>
+      isBuiltIn(name) || existing.some((row) => row.name === name)
+        ? []
+        : [
+            {
+              location: 'body' as const,
+              path: `roles.${index}`,
+              message: `Unknown role "${name}"`,
+            },
+          ]
+    )
+    if (issues.length) throw new ValidationError(issues)
+
+    const [current] = await tx
+      .select({ role: user.role })
+      .from(user)
+      // Anonymised users are only kept for the records pointing to them
+      .where(and(eq(user.id, userId), isNull(user.deletedAt)))
+      .for('update')
+    if (!current) throw new NotFoundError('User not found')
+
+    await tx
+      .update(user)
+      .set({ role: names.join(','), updatedAt: new Date() })
+      .where(eq(user.id, userId))
+    return splitRoles(current.role)
+  })
+
+  return { previous, roles: names }
+}
@@ -0,0 +1,64 @@
+import { gt, lte, sql } from 'drizzle-orm'
+
+import db from '@/db'
+import { sessionRevocation } from '@/db/schema/session-revocation-schema'
+
+/**
+ * How long revocations read from the database are reused
+ * Revocations made by this replica apply at once, other replicas see them
+ * once their copy expires
+ */
+const REVOCATION_CACHE_TTL_MS = 5000
+
+const loadRevocations = async (): Promise<Set<string>> => {
+  const rows = await db
+    .select({ sessionId: sessionRevocation.sessionId })
+    .from(sessionRevocation)
+    .where(gt(sessionRevocation.expiresAt, sql`now()`))
+  return new Set(rows.map((row) => row.sessionId))
+}
+
+let cache: { expiresAt: number; revoked: Promise<Set<string>> } | undefined
+
+const revokedSessions = (): Promise<Set<string>> => {
+  if (!cache || cache.expiresAt <= Date.now()) {
+    const revoked = loadRevocations()
+    cache = { expiresAt: Date.now() + REVOCATION_CACHE_TTL_MS, revoked }
+    // Retry on the next call rather than serving the failure until expiry
+    revoked.catch(() => {
+      if (cache?.revoked === revoked) cache = undefined
+    })
+  }
+  return cache.revoked
+}
+
+/**
+ * Remember that a session was deleted for as long as a cookie cache of it
+ * may be presented, Better Auth trusts those without reading the session
+ */
+export async function markSessionRevoked(
+  sessionId: string,
+  cookieCacheMaxAgeMs: number
+): Promise<void> {
+  await db
+    .insert(sessionRevocation)
+    .values({
+      sessionId,
+      expiresAt: new Date(Date.now() + cookieCacheMaxAgeMs),
+    })
+    .onConflictDoNothing()
+  // Expired revocations are of no use, clear them as new ones come in
+  await db
+    .delete(sessionRevocation)
+    .where(lte(sessionRevocation.expiresAt, sql`now()`))
+
+  // Applies on this replica at once
+  cache = undefined
+}
+
+/**
+ * Whether a session served from the cookie cache was revoked since
+ */
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  return (await revokedSessions()).has(sessionId)
+}
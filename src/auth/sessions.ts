@@ -0,0 +1,102 @@
+import { and, desc, eq, gt, ne, sql } from 'drizzle-orm'
+
+import db from '@/db'
+import { session } from '@/db/schema/auth-schema'
+
+import { auth } from '@/lib/auth'
+import { NotFoundError } from '@/lib/errors'
+import { parseUserAgent, type DeviceInfo } from '@/lib/user-agent'
+
+export interface SessionDetails {
+  id: string
+  /**
+   * The session making the request
+   */
+  current: boolean
+  ipAddress: string | null
+  userAgent: string | null
+  device: DeviceInfo
+  /**
+   * Admin who started the session to impersonate the user
+   */
+  impersonatedBy: string | null
+  createdAt: Date
+  /**
+   * Last time the session was refreshed, at most a day ago while in use
+   */
+  updatedAt: Date
+  expiresAt: Date
+}
+
+/**
+ * Delete sessions through Better Auth, so its hooks revoke their cookie
+ * caches (see `databaseHooks` in src/lib/auth.ts)
+ */
+const deleteSessions = async (tokens: string[]) => {
+  if (!tokens.length) return
+  const { internalAdapter } = await auth.$context
+  await internalAdapter.deleteSessions(tokens)
+}
+
+/**
+ * A user's unexpired sessions, most recently active first
+ */
+export async function listSessions(
+  userId: string,
+  currentSessionId?: string | null
+): Promise<SessionDetails[]> {
+  const rows = await db
+    .select({
+      id: session.id,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      impersonatedBy: session.impersonatedBy,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      expiresAt: session.expiresAt,
+    })
+    .from(session)
+    .where(and(eq(session.userId, userId), gt(session.expiresAt, sql`now()`)))
+    .orderBy(desc(session.updatedAt))
+
+  return rows.map((row) => ({
+    ...row,
+    current: row.id === currentSessionId,
+    device: parseUserAgent(row.userAgent),
+  }))
+}
+
+/**
+ * Sign one of a user's sessions out
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  const [row] = await db
+    .select({ token: session.token })
+    .from(session)
+    .where(and(eq(session.id, sessionId), eq(session.userId, userId)))
+  if (!row) throw new NotFoundError('Session not found')
+
+  await deleteSessions([row.token])
+}
+
+/**
+ * Sign a user out everywhere, except from `keep` when given
+ * Returns the IDs of the revoked sessions
+ */
+export async function revokeSessions(
+  userId: string,
+  keep?: string | null
+): Promise<string[]> {
+  const rows = await db
+    .select({ id: session.id, token: session.token })
+    .from(session)
+    .where(
+      and(eq(session.userId, userId), keep ? ne(session.id, keep) : undefined)
+    )
+
+  await deleteSessions(rows.map((row) => row.token))
+  return rows.map((row) => row.id)
+}
@@ -0,0 +1,123 @@
+import { hc, type ClientResponse } from 'hono/client'
+import type { SuccessStatusCode } from 'hono/utils/http-status'
+
+import type { Problem } from '@/lib/errors'
+import { REQUEST_ID_HEADER } from '@/lib/utils'
+
+import type { AppType } from './app'
+
+export type { AppType }
+export { REQUEST_ID_HEADER }
+
+export interface ClientOptions {
+  /**
+   * Headers sent with every request, e.g. a bearer token
+   */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>)
+  /**
+   * Custom fetch, e.g. to add retries or for server-side rendering
+   */
+  fetch?: typeof fetch
+  /**
+   * Called with the `X-Request-ID` of every response, useful to attach it
+   * to frontend error reports
+   */
+  onRequestId?: (requestId: string, response: Response) => void
+}
+
+/**
+ * Error thrown by `unwrap()` for non-2xx responses
+ * Carries the server's problem details and request ID
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly problem: Problem
+  readonly requestId?: string
+
+  constructor(problem: Problem, requestId?: string) {
+    super(problem.detail ?? problem.title)
+    this.name = 'ApiError'
+    this.status = problem.status
+    this.problem = problem
+    this.requestId = requestId ?? problem.requestId
+  }
+}
+
+/**
+ * Read the problem details of a failed response, falling back to a
+ * generic problem when the body isn't `application/problem+json`
+ * (e.g. a proxy error page)
+ */
+const readProblem = async (response: Response): Promise<Problem> => {
+  try {
+    const body = (await response.clone().json()) as Partial<Problem>
+    if (typeof body.status === 'number' && typeof body.title === 'string') {
+      return body as Problem
+    }
+  } catch {
+    // Not JSON, fall through
+  }
+  return {
+    type: 'about:blank',
+    title: response.statusText || 'Request failed',
+    status: response.status,
+  }
+}
+
+type SuccessBody<R> =
+  R extends ClientResponse<infer T, infer U, 'json'>
+    ? U extends SuccessStatusCode
+      ? T
+      : never
+    : never
+
+/**
+ * Await a client call and return its JSON body, throwing an `ApiError` for
+ * error statuses
+ *
+ * @example
+ * ```ts
+ * const dashboard = await unwrap(api.dashboard.$get())
+ * ```
+ */
+export async function unwrap<R extends ClientResponse<unknown>>(
+  response: R | Promise<R>
+): Promise<SuccessBody<R>> {
+  const res = (await response) as unknown as Response
+  if (!res.ok) {
+    throw new ApiError(
+      await readProblem(res),
+      res.headers.get(REQUEST_ID_HEADER) ?? undefined
+    )
+  }
+  return (await res.json()) as SuccessBody<R>
+}
+
+/**
+ * Typed RPC client for the API, sending cookies so Better Auth sessions work
+ * across origins
+ *
+ * @param baseUrl - Server origin, e.g. `http://localhost:3000`
+ *
+ * @example
+ * ```ts
+ * const { api } = createClient('http://localhost:3000')
+ * const res = await api.health.ready.$get()
+ * ```
+ */
+export function createClient(baseUrl: string, options: ClientOptions = {}) {
+  const { fetch: baseFetch = fetch, onRequestId } = options
+
+  return hc<AppType>(baseUrl, {
+    headers: options.headers,
+    init: { credentials: 'include' },
+    fetch: async (...args: Parameters<typeof fetch>) => {
+      const response = await baseFetch(...args)
+      const requestId = response.headers.get(REQUEST_ID_HEADER)
+      if (requestId) onRequestId?.(requestId, response)
+      return response
+    },
+  })
+}
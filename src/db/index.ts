@@ -1,13 +1,123 @@
 import 'dotenv/config'
+import { existsSync } from 'node:fs'
+
+import { readMigrationFiles, type MigrationMeta } from 'drizzle-orm/migrator'
 import { drizzle } from 'drizzle-orm/node-postgres'
-import { Pool } from 'pg'
+import { Pool, type PoolClient } from 'pg'
+
+import { registerHealthCheck } from '@/lib/health'
+import { onShutdown } from '@/lib/lifecycle'
+import { Gauge, registry } from '@/lib/metrics'
+import { getActiveContext, SPAN_KIND, startSpan } from '@/lib/tracing'
 
 import { getEnv } from '@/env'
 
+// Keep in sync with `out` in drizzle.config.ts
+export const MIGRATIONS_FOLDER = './src/db/migrations'
+
 const pool = new Pool({
   connectionString: getEnv().DATABASE_URL,
 })
 
+type QueryFn = (...args: unknown[]) => unknown
+
+/**
+ * Wrap a `query` function to record a client span for every promise query
+ * issued inside a trace
+ */
+const traced =
+  (query: QueryFn): QueryFn =>
+  (...args: unknown[]) => {
+    const [config] = args
+    const text =
+      typeof config === 'string'
+        ? config
+        : (config as { text?: string } | undefined)?.text
+
+    // Callback style and submittable queries (cursors, streams) pass through
+    if (
+      !text ||
+      !getActiveContext() ||
+      typeof args[args.length - 1] === 'function'
+    ) {
+      return query(...args)
+    }
+
+    const operation = text.trim().split(/\s+/)[0].toUpperCase()
+    const span = startSpan(`db.${operation.toLowerCase()}`, {
+      kind: SPAN_KIND.CLIENT,
+      attributes: {
+        'db.system': 'postgresql',
+        'db.operation': operation,
+        'db.statement': text,
+      },
+    })
+
+    return (query(...args) as Promise<unknown>).then(
+      (result) => {
+        span.end()
+        return result
+      },
+      (err: unknown) => {
+        span.recordException(
+          err instanceof Error ? err : new Error(String(err))
+        )
+        span.end()
+        throw err
+      }
+    )
+  }
+
+// Drizzle sends queries outside transactions through `pool.query`, which
+// hands them to a client in callback style, so it is traced itself
+// Transactions query their checked-out client directly
+pool.query = traced(pool.query.bind(pool) as QueryFn) as typeof pool.query
+
+pool.on('connect', (client: PoolClient) => {
+  client.query = traced(
+    client.query.bind(client) as QueryFn
+  ) as typeof client.query
+})
+
+registry.register(
+  new Gauge(
+    'pg_pool_connections',
+    'node-postgres pool connections by state',
+    (gauge) => {
+      gauge.set({ state: 'total' }, pool.totalCount)
+      gauge.set({ state: 'idle' }, pool.idleCount)
+      gauge.set({ state: 'waiting' }, pool.waitingCount)
+    }
+  )
+)
+
 const db = drizzle({ client: pool })
 
+registerHealthCheck('database', () => pool.query('SELECT 1'))
+
+onShutdown('database', () => pool.end())
+
+// Migrations on disk can't change while running, read them once
+let migrationFiles: MigrationMeta[] | undefined
+
+registerHealthCheck('migrations', async () => {
+  // Nothing to compare when the schema is managed with db:push
+  if (!existsSync(`${MIGRATIONS_FOLDER}/meta/_journal.json`)) return
+
+  migrationFiles ??= readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER })
+  const { rows } = await pool.query<{ created_at: string }>(
+    'SELECT created_at FROM drizzle.__drizzle_migrations ORDER BY created_at DESC LIMIT 1'
+  )
+  const lastApplied = Number(rows[0]?.created_at ?? 0)
+  const pending = migrationFiles.filter(
+    (migration) => migration.folderMillis > lastApplied
+  ).length
+
+  if (pending > 0) {
+    throw new Error(`${pending} pending migration(s)`)
+  }
+})
+
+export { pool }
+
 export default db
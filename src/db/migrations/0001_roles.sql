@@ -0,0 +1,17 @@
+CREATE TABLE "role" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "role_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "role_permission" (
+	"role_id" uuid NOT NULL,
+	"resource" text NOT NULL,
+	"action" text NOT NULL,
+	CONSTRAINT "role_permission_role_id_resource_action_pk" PRIMARY KEY("role_id","resource","action")
+);
+--> statement-breakpoint
+ALTER TABLE "role_permission" ADD CONSTRAINT "role_permission_role_id_role_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."role"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
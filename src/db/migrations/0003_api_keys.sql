@@ -0,0 +1,18 @@
+CREATE TABLE "api_key" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"user_id" uuid NOT NULL,
+	"organization_id" uuid,
+	"scopes" jsonb NOT NULL,
+	"rate_limit" integer,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "api_key_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_key_user_id_index" ON "api_key" USING btree ("user_id");
\ No newline at end of file
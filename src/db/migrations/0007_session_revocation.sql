@@ -0,0 +1,6 @@
+CREATE TABLE "session_revocation" (
+	"session_id" uuid PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "session_revocation_expires_at_index" ON "session_revocation" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "account_lockout" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"failed_attempts" integer NOT NULL,
+	"last_failed_at" timestamp NOT NULL,
+	"locked_until" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "account_lockout" ADD CONSTRAINT "account_lockout_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user" ADD COLUMN "deletion_requested_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "account_lockout" ADD COLUMN "email" text;--> statement-breakpoint
+UPDATE "account_lockout" SET "email" = lower("user"."email") FROM "user" WHERE "user"."id" = "account_lockout"."user_id";--> statement-breakpoint
+ALTER TABLE "account_lockout" DROP CONSTRAINT "account_lockout_user_id_user_id_fk";--> statement-breakpoint
+ALTER TABLE "account_lockout" DROP COLUMN "user_id";--> statement-breakpoint
+ALTER TABLE "account_lockout" ALTER COLUMN "email" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "account_lockout" ADD PRIMARY KEY ("email");
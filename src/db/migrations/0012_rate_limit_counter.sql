@@ -0,0 +1,2 @@
+ALTER TABLE "rate_limit" RENAME TO "rate_limit_counter";--> statement-breakpoint
+ALTER INDEX "rate_limit_expires_at_index" RENAME TO "rate_limit_counter_expires_at_index";
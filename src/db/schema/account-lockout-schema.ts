@@ -0,0 +1,13 @@
+import { integer, pgTable, text, timestamp } from 'drizzle-orm/pg-core'
+
+// Failed password sign-ins per email, see src/auth/account-lockout.ts
+// Kept for emails without an account too, so both are answered alike
+export const accountLockout = pgTable('account_lockout', {
+  // Lowercased, as submitted
+  email: text('email').primaryKey(),
+  // Consecutive failures, counted again from 1 once the last is old enough
+  failedAttempts: integer('failed_attempts').notNull(),
+  lastFailedAt: timestamp('last_failed_at').notNull(),
+  // Password sign-ins are refused until then, whatever the password
+  lockedUntil: timestamp('locked_until'),
+})
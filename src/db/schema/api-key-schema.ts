@@ -0,0 +1,47 @@
+import { randomUUIDv7 } from 'bun'
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core'
+
+import type { Permissions } from '@/auth/permissions'
+
+import { organization, user } from './auth-schema'
+
+// Keys for machine-to-machine clients, see src/auth/api-keys.ts
+export const apiKey = pgTable(
+  'api_key',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    name: text('name').notNull(),
+    // Start of the key, shown in listings so owners can tell keys apart
+    prefix: text('prefix').notNull(),
+    // SHA-256 of the key, the key itself is only shown once
+    keyHash: text('key_hash').notNull().unique(),
+    // Requests made with the key act as this user
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Set for keys owned by an organization, they act within it
+    organizationId: uuid('organization_id').references(() => organization.id, {
+      onDelete: 'cascade',
+    }),
+    // Actions the key may use, within the permissions of its user
+    scopes: jsonb('scopes').$type<Permissions>().notNull(),
+    // Requests per window for `createUserRateLimit()`, its own limit when null
+    rateLimit: integer('rate_limit'),
+    expiresAt: timestamp('expires_at'),
+    lastUsedAt: timestamp('last_used_at'),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index('api_key_user_id_index').on(table.userId)]
+)
@@ -0,0 +1,49 @@
+import { randomUUIDv7 } from 'bun'
+import {
+  index,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core'
+
+/**
+ * Fields an action changed, with their values before and after it
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+// Append-only record of security-relevant and admin actions, see
+// src/lib/audit.ts
+// Users aren't referenced by foreign keys so entries outlive them, the only
+// updates strip the personal details of deleted users
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    // UUIDv7, so ordering by ID orders by time
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    // Null for anonymous actions such as failed sign-ins
+    actorId: uuid('actor_id'),
+    // Admin acting through an impersonation session
+    impersonatorId: uuid('impersonator_id'),
+    // `<resource>.<what happened>`, e.g. `user.banned`
+    action: text('action').notNull(),
+    targetType: text('target_type'),
+    targetId: text('target_id'),
+    changes: jsonb('changes').$type<AuditChanges>(),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    requestId: text('request_id'),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index('audit_log_actor_id_index').on(table.actorId),
+    index('audit_log_target_index').on(table.targetType, table.targetId),
+    index('audit_log_action_index').on(table.action),
+  ]
+)
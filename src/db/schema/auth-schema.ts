@@ -2,6 +2,7 @@ import { randomUUIDv7 } from 'bun'
 import {
   boolean,
   index,
+  integer,
   pgTable,
   text,
   timestamp,
@@ -30,6 +31,12 @@ export const user = pgTable(
     banned: boolean('banned'),
     banReason: text('ban_reason'),
     banExpires: timestamp('ban_expires'),
+    twoFactorEnabled: boolean('two_factor_enabled').default(false),
+    // Set when the user asked for their account to be deleted, it is
+    // anonymised once the grace period ends, see src/auth/account-deletion.ts
+    deletionRequestedAt: timestamp('deletion_requested_at'),
+    // Set once anonymised, the row is purged for good later
+    deletedAt: timestamp('deleted_at'),
   },
   (table) => [index('email').on(table.email)]
 )
@@ -50,6 +57,13 @@ export const session = pgTable(
       .notNull()
       .references(() => user.id, { onDelete: 'cascade' }),
     impersonatedBy: text('impersonated_by'),
+    activeOrganizationId: uuid('active_organization_id').references(
+      () => organization.id,
+      { onDelete: 'set null' }
+    ),
+    // Set when the session was created by a TOTP, backup code or passkey
+    // verification, see requireSecondFactor in src/auth/auth-guard.ts
+    secondFactorVerifiedAt: timestamp('second_factor_verified_at'),
   },
   (table) => [
     index('session_user_id_index').on(table.userId),
@@ -99,3 +113,108 @@ export const verification = pgTable(
   },
   (table) => [index('verification_identifier_index').on(table.identifier)]
 )
+
+export const twoFactor = pgTable(
+  'two_factor',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    secret: text('secret').notNull(),
+    backupCodes: text('backup_codes').notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    index('two_factor_secret_index').on(table.secret),
+    index('two_factor_user_id_index').on(table.userId),
+  ]
+)
+
+export const passkey = pgTable(
+  'passkey',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    name: text('name'),
+    publicKey: text('public_key').notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    credentialID: text('credential_id').notNull(),
+    counter: integer('counter').notNull(),
+    deviceType: text('device_type').notNull(),
+    backedUp: boolean('backed_up').notNull(),
+    transports: text('transports'),
+    createdAt: timestamp('created_at'),
+    aaguid: text('aaguid'),
+  },
+  (table) => [
+    index('passkey_user_id_index').on(table.userId),
+    index('passkey_credential_id_index').on(table.credentialID),
+  ]
+)
+
+export const organization = pgTable(
+  'organization',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    name: text('name').notNull(),
+    slug: text('slug').notNull().unique(),
+    logo: text('logo'),
+    metadata: text('metadata'),
+    createdAt: timestamp('created_at').notNull(),
+  },
+  (table) => [index('organization_slug_index').on(table.slug)]
+)
+
+export const member = pgTable(
+  'member',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organization.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    role: text('role').default('member').notNull(),
+    createdAt: timestamp('created_at').notNull(),
+  },
+  (table) => [
+    index('member_organization_id_index').on(table.organizationId),
+    index('member_user_id_index').on(table.userId),
+  ]
+)
+
+export const invitation = pgTable(
+  'invitation',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organization.id, { onDelete: 'cascade' }),
+    email: text('email').notNull(),
+    role: text('role'),
+    status: text('status').default('pending').notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    inviterId: uuid('inviter_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    index('invitation_organization_id_index').on(table.organizationId),
+    index('invitation_email_index').on(table.email),
+  ]
+)
@@ -0,0 +1,45 @@
+import { randomUUIDv7 } from 'bun'
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core'
+
+// Emails waiting to be sent or retried, see src/lib/mailer.ts
+export const mailOutbox = pgTable(
+  'mail_outbox',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    // Template the message was rendered from, for logs and metrics
+    template: text('template').notNull(),
+    to: text('to').notNull(),
+    subject: text('subject').notNull(),
+    // Blanked once the message is sent or given up on
+    text: text('text').notNull(),
+    html: text('html'),
+    // pending | sent | failed (gave up after the last attempt)
+    status: text('status').default('pending').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    lastError: text('last_error'),
+    // Earliest time of the next attempt, pushed forward while a worker
+    // holds the message so other replicas skip it
+    nextAttemptAt: timestamp('next_attempt_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    sentAt: timestamp('sent_at'),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index('mail_outbox_status_next_attempt_at_index').on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  ]
+)
@@ -0,0 +1,20 @@
+import { randomUUIDv7 } from 'bun'
+import { index, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+
+import { user } from './auth-schema'
+
+// Hashes of passwords users replaced, see src/auth/password-policy.ts
+export const passwordHistory = pgTable(
+  'password_history',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUIDv7()),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    passwordHash: text('password_hash').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('password_history_user_id_index').on(table.userId)]
+)
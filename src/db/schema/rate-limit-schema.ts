@@ -0,0 +1,22 @@
+import {
+  bigint,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+} from 'drizzle-orm/pg-core'
+
+// Not `rate_limit`, the model name of Better Auth's own rate limiter
+export const rateLimitCounter = pgTable(
+  'rate_limit_counter',
+  {
+    key: text('key').primaryKey(),
+    count: integer('count').notNull(),
+    // Also holds the theoretical arrival time for token buckets
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    // Request timestamps (ms) for sliding logs
+    hits: bigint('hits', { mode: 'number' }).array(),
+  },
+  (table) => [index('rate_limit_counter_expires_at_index').on(table.expiresAt)]
+)
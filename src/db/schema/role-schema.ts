@@ -0,0 +1,35 @@
+import { randomUUIDv7 } from 'bun'
+import { pgTable, primaryKey, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+
+// Roles managed at runtime, the built-in `admin` and `user` roles live in
+// src/auth/permissions.ts
+export const role = pgTable('role', {
+  id: uuid('id')
+    .primaryKey()
+    .$defaultFn(() => randomUUIDv7()),
+  // Stored in `user.role`, comma-separated when a user has several
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  createdAt: timestamp('created_at')
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp('updated_at')
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+})
+
+// One row per action a role is granted on a resource of the `ac` statement
+export const rolePermission = pgTable(
+  'role_permission',
+  {
+    roleId: uuid('role_id')
+      .notNull()
+      .references(() => role.id, { onDelete: 'cascade' }),
+    resource: text('resource').notNull(),
+    action: text('action').notNull(),
+  },
+  // Also serves lookups by role, it leads with `role_id`
+  (table) => [
+    primaryKey({ columns: [table.roleId, table.resource, table.action] }),
+  ]
+)
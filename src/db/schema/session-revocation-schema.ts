@@ -0,0 +1,14 @@
+import { index, pgTable, timestamp, uuid } from 'drizzle-orm/pg-core'
+
+// Sessions deleted while their cookie cache may still be served, see
+// src/auth/session-revocations.ts
+export const sessionRevocation = pgTable(
+  'session_revocation',
+  {
+    // The session row is gone, so no foreign key
+    sessionId: uuid('session_id').primaryKey(),
+    // When the last cookie cache of the session has expired
+    expiresAt: timestamp('expires_at').notNull(),
+  },
+  (table) => [index('session_revocation_expires_at_index').on(table.expiresAt)]
+)
@@ -0,0 +1,115 @@
+import { eq } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+import db from '@/db'
+import { account, session, user } from '@/db/schema/auth-schema'
+
+import { hashPassword } from '@/lib/password'
+import { generateId } from '@/lib/utils'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * The shared `db` or a transaction, seeds run inside one
+ */
+export type Database = typeof db | Transaction
+
+/**
+ * Build and insert rows for a table with sensible defaults
+ * `sequence` increments on every build, to keep unique columns unique
+ */
+export function defineFactory<T extends PgTable>(
+  table: T,
+  defaults: (sequence: number) => T['$inferInsert']
+) {
+  let sequence = 0
+
+  const build = (overrides: Partial<T['$inferInsert']> = {}) =>
+    ({ ...defaults(++sequence), ...overrides }) as T['$inferInsert']
+
+  return {
+    build,
+    async create(
+      database: Database,
+      overrides: Partial<T['$inferInsert']> = {}
+    ): Promise<T['$inferSelect']> {
+      const [row] = await database
+        .insert(table)
+        .values(build(overrides))
+        .returning()
+      return row as T['$inferSelect']
+    },
+    async createMany(
+      database: Database,
+      count: number,
+      overrides: Partial<T['$inferInsert']> = {}
+    ): Promise<T['$inferSelect'][]> {
+      const rows = Array.from({ length: count }, () => build(overrides))
+      return (await database
+        .insert(table)
+        .values(rows)
+        .returning()) as T['$inferSelect'][]
+    },
+  }
+}
+
+export const userFactory = defineFactory(user, (n) => ({
+  name: `User ${n}`,
+  email: `user${n}@example.com`,
+  emailVerified: true,
+  role: 'user',
+}))
+
+/**
+ * Requires `userId` and, for credential accounts, `accountId` set to it
+ */
+export const accountFactory = defineFactory(account, () => ({
+  accountId: '',
+  providerId: 'credential',
+  userId: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}))
+
+/**
+ * Requires `userId`, expires after 7 days like Better Auth sessions
+ */
+export const sessionFactory = defineFactory(session, () => ({
+  token: generateId(),
+  userId: '',
+  expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}))
+
+/**
+ * Insert a user with a credential account, so it can sign in with
+ * email and password like one created through Better Auth
+ * Returns the existing user, untouched, when the email is taken
+ */
+export async function createUserWithPassword(
+  database: Database,
+  values: Partial<typeof user.$inferInsert> & { password: string }
+): Promise<typeof user.$inferSelect> {
+  const { password, ...overrides } = values
+  const [created] = await database
+    .insert(user)
+    .values(userFactory.build(overrides))
+    .onConflictDoNothing({ target: user.email })
+    .returning()
+
+  if (!created) {
+    const [existing] = await database
+      .select()
+      .from(user)
+      .where(eq(user.email, overrides.email ?? ''))
+    return existing
+  }
+
+  await accountFactory.create(database, {
+    accountId: created.id,
+    userId: created.id,
+    password: await hashPassword(password),
+  })
+  return created
+}
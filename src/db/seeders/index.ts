@@ -0,0 +1,27 @@
+import db from '@/db'
+
+import { logger } from '@/lib/logger'
+
+import adminSeed from './seeds/admin'
+import usersSeed from './seeds/users'
+import type { Seed, SeedEnvironment } from './types'
+
+/**
+ * Seeds in the order they run, add new ones here
+ */
+export const seeds: Seed[] = [adminSeed, usersSeed]
+
+/**
+ * Run the seeds registered for `environment`, each in its own transaction
+ */
+export async function runSeeds(environment: SeedEnvironment): Promise<void> {
+  for (const seed of seeds) {
+    if (!seed.environments.includes(environment)) continue
+
+    const start = performance.now()
+    await db.transaction((tx) => seed.run(tx))
+    logger.info(
+      `Seeded ${seed.name} in ${Math.round(performance.now() - start)}ms`
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { join } from 'node:path'
+
+import { is, sql } from 'drizzle-orm'
+import { getTableConfig, PgTable } from 'drizzle-orm/pg-core'
+
+import db, { pool } from '@/db'
+
+import { logger } from '@/lib/logger'
+
+import { getEnv } from '@/env'
+
+import { runSeeds } from '.'
+
+// Every module of @/db/schema, like drizzle.config.ts reads them
+const schemaFolder = join(import.meta.dir, '../schema')
+
+/**
+ * Tables defined by the schema modules
+ */
+const schemaTables = async (): Promise<PgTable[]> => {
+  const tables = new Set<PgTable>()
+  for await (const file of new Bun.Glob('*.ts').scan(schemaFolder)) {
+    const module = (await import(join(schemaFolder, file))) as object
+    for (const value of Object.values(module)) {
+      if (is(value, PgTable)) tables.add(value)
+    }
+  }
+  return [...tables]
+}
+
+/**
+ * Order tables so every table comes before the ones it references
+ */
+const referencingFirst = (all: PgTable[]): PgTable[] => {
+  const ordered: PgTable[] = []
+  const visit = (table: PgTable, path: Set<PgTable>) => {
+    if (ordered.includes(table) || path.has(table)) return
+    path.add(table)
+    // Tables pointing at this one must be emptied before it
+    for (const other of all) {
+      const references = getTableConfig(other).foreignKeys.some(
+        (fk) => fk.reference().foreignTable === table
+      )
+      if (references && other !== table) visit(other, path)
+    }
+    ordered.push(table)
+  }
+
+  for (const table of all) visit(table, new Set())
+  return ordered
+}
+
+const env = getEnv()
+
+if (env.NODE_ENV === 'production') {
+  logger.error('Refusing to reset the database with NODE_ENV=production')
+  process.exit(1)
+}
+
+try {
+  const ordered = referencingFirst(await schemaTables())
+  // Postgres only truncates a referenced table together with the tables
+  // referencing it, so everything goes in one statement
+  await db.execute(sql`TRUNCATE TABLE ${sql.join(ordered, sql`, `)}`)
+  logger.info(
+    `Truncated ${ordered.map((table) => getTableConfig(table).name).join(', ')}`
+  )
+
+  if (process.argv.includes('--seed')) {
+    await runSeeds(env.NODE_ENV)
+  }
+  logger.info('Reset complete')
+} catch (err) {
+  logger.error('Reset failed', err)
+  process.exitCode = 1
+} finally {
+  await pool.end()
+}
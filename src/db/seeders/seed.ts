@@ -0,0 +1,20 @@
+import { pool } from '@/db'
+
+import { logger } from '@/lib/logger'
+
+import { getEnv } from '@/env'
+
+import { runSeeds } from '.'
+
+const environment = getEnv().NODE_ENV
+
+try {
+  logger.info(`Seeding database (${environment})`)
+  await runSeeds(environment)
+  logger.info('Seeding complete')
+} catch (err) {
+  logger.error('Seeding failed', err)
+  process.exitCode = 1
+} finally {
+  await pool.end()
+}
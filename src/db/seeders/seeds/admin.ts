@@ -0,0 +1,44 @@
+import { eq } from 'drizzle-orm'
+
+import { user } from '@/db/schema/auth-schema'
+
+import { logger } from '@/lib/logger'
+
+import { splitRoles } from '@/auth/roles'
+import { getEnv } from '@/env'
+
+import { createUserWithPassword } from '../factory'
+import type { Seed } from '../types'
+
+/**
+ * Initial admin from `SEED_ADMIN_EMAIL` and `SEED_ADMIN_PASSWORD`
+ * An existing user with that email is given the admin role instead
+ */
+const adminSeed: Seed = {
+  name: 'admin',
+  environments: ['development', 'test', 'production'],
+  async run(db) {
+    const { SEED_ADMIN_EMAIL, SEED_ADMIN_PASSWORD, SEED_ADMIN_NAME } = getEnv()
+    if (!SEED_ADMIN_EMAIL || !SEED_ADMIN_PASSWORD) {
+      logger.warn('SEED_ADMIN_EMAIL or SEED_ADMIN_PASSWORD not set, skipping')
+      return
+    }
+
+    const admin = await createUserWithPassword(db, {
+      name: SEED_ADMIN_NAME,
+      email: SEED_ADMIN_EMAIL,
+      password: SEED_ADMIN_PASSWORD,
+      role: 'admin',
+    })
+    // Added to the roles the user already has
+    const roles = splitRoles(admin.role)
+    if (!roles.includes('admin')) {
+      await db
+        .update(user)
+        .set({ role: [...roles, 'admin'].join(',') })
+        .where(eq(user.id, admin.id))
+    }
+  },
+}
+
+export default adminSeed
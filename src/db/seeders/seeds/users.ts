@@ -0,0 +1,25 @@
+import { createUserWithPassword } from '../factory'
+import type { Seed } from '../types'
+
+// Known credentials for local development and tests, never in production
+export const SEED_USER_PASSWORD = 'password1234'
+
+export const SEED_USERS = [
+  { name: 'Demo Admin', email: 'admin@example.com', role: 'admin' },
+  { name: 'Demo User', email: 'user@example.com', role: 'user' },
+] as const
+
+const usersSeed: Seed = {
+  name: 'users',
+  environments: ['development', 'test'],
+  async run(db) {
+    for (const values of SEED_USERS) {
+      await createUserWithPassword(db, {
+        ...values,
+        password: SEED_USER_PASSWORD,
+      })
+    }
+  },
+}
+
+export default usersSeed
@@ -0,0 +1,18 @@
+import type { Database } from './factory'
+
+export type SeedEnvironment = 'development' | 'test' | 'production'
+
+export interface Seed {
+  /**
+   * Shown in the seeder output
+   */
+  name: string
+  /**
+   * Environments (`NODE_ENV`) the seed runs in
+   */
+  environments: SeedEnvironment[]
+  /**
+   * Must be idempotent: running `db:seed` twice leaves the same data
+   */
+  run: (db: Database) => Promise<void>
+}
@@ -6,12 +6,75 @@ import { z } from 'zod'
 export const getEnv = (c?: Context) =>
   createEnv({
     server: {
+      NODE_ENV: z
+        .enum(['development', 'test', 'production'])
+        .default('development'),
       SERVER_PORT: z.coerce.number().default(3000),
+      SERVER_HOSTNAME: z.string().default('0.0.0.0'),
+      SHUTDOWN_TIMEOUT_MS: z.coerce.number().default(10000),
       CORS_ORIGIN: z.string().default('http://localhost:3001'),
-      LOG_LEVEL: z.string().default('info'),
+      LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+      LOG_FORMAT: z.enum(['pretty', 'json']).default('pretty'),
+      LOG_FILE: z.string().optional(),
+      OTEL_EXPORTER_OTLP_ENDPOINT: z.url().optional(),
+      OTEL_SERVICE_NAME: z.string().default('honotreez'),
+      METRICS_TOKEN: z.string().min(16).optional(),
+      // Serve /api/openapi.json and /api/docs, defaults to off in production
+      API_DOCS_ENABLED: z.stringbool().optional(),
       BETTER_AUTH_SECRET: z.string(),
       BETTER_AUTH_URL: z.url(),
+      // Domain passkeys are bound to, defaults to the hostname of CORS_ORIGIN
+      PASSKEY_RP_ID: z.string().optional(),
       DATABASE_URL: z.url(),
+      // Refuse password sign-ins until the email address is verified
+      REQUIRE_EMAIL_VERIFICATION: z.stringbool().default(false),
+      // Argon2id parameters for new hashes, older hashes are upgraded on
+      // sign-in
+      PASSWORD_HASH_MEMORY_COST: z.coerce.number().int().min(8).default(19456),
+      PASSWORD_HASH_TIME_COST: z.coerce.number().int().min(1).default(2),
+      PASSWORD_HASH_PARALLELISM: z.coerce.number().int().min(1).default(1),
+      PASSWORD_MIN_LENGTH: z.coerce.number().int().min(8).default(8),
+      // Strength score from 0 to 4, see src/auth/password-policy.ts
+      PASSWORD_MIN_SCORE: z.coerce.number().int().min(0).max(4).default(2),
+      // Previous passwords a user can't set again, 0 to allow any
+      PASSWORD_HISTORY: z.coerce.number().int().min(0).default(5),
+      // Sorted SHA-1 hashes of breached passwords (`HASH:COUNT` lines), the
+      // check is skipped when unset
+      BREACHED_PASSWORDS_FILE: z.string().optional(),
+      // Days before a requested account deletion happens, see
+      // src/auth/account-deletion.ts
+      ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().min(0).default(30),
+      // Days anonymised accounts are kept before being purged
+      DELETED_ACCOUNT_RETENTION_DAYS: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(30),
+      MAIL_TRANSPORT: z.enum(['smtp', 'file', 'memory']).default('file'),
+      MAIL_FROM: z.string().default('honotreez <no-reply@localhost>'),
+      SMTP_URL: z.url().optional(),
+      // Where the file transport writes messages
+      MAIL_FILE_DIR: z.string().default('mail'),
+      // Initial admin created by `bun run db:seed`
+      SEED_ADMIN_EMAIL: z.email().optional(),
+      SEED_ADMIN_PASSWORD: z.string().min(8).optional(),
+      SEED_ADMIN_NAME: z.string().default('Admin'),
+      RATE_LIMIT_STORE: z
+        .enum(['memory', 'database', 'redis'])
+        .default('memory'),
+      REDIS_URL: z.url().optional(),
+      // Comma-separated IPs or CIDR ranges of reverse proxies allowed to set
+      // forwarding headers
+      TRUSTED_PROXIES: z
+        .string()
+        .default('')
+        .transform((value) =>
+          value
+            .split(',')
+            .map((proxy) => proxy.trim())
+            .filter(Boolean)
+        )
+        .pipe(z.array(z.union([z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()]))),
     },
     runtimeEnv: c ? env(c) : process.env,
     emptyStringAsUndefined: true,
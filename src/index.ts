@@ -1,79 +1,61 @@
 import 'dotenv/config'
-import { cors } from 'hono/cors'
-import { HTTPException } from 'hono/http-exception'
-import { prettyJSON } from 'hono/pretty-json'
-
-import { authMiddleware } from './auth/auth-guard'
+import app from './app'
 import { getEnv } from './env'
-import createApp from './lib/create-app'
-import { combinedLogger } from './lib/logger'
-import { rateLimit } from './lib/rate-limit'
-import appRouter from './routes'
-import authRouter from './routes/auth'
+import { markShuttingDown } from './lib/health'
+import { runShutdownHooks, runStartHooks } from './lib/lifecycle'
+import { logger } from './lib/logger'
 
-const app = createApp()
+const { SERVER_PORT, SERVER_HOSTNAME, SHUTDOWN_TIMEOUT_MS } = getEnv()
 
-app.use('*', combinedLogger())
+const server = Bun.serve({
+  port: SERVER_PORT,
+  hostname: SERVER_HOSTNAME,
+  fetch: app.fetch,
+})
 
-// Global rate limiting: 100 requests per minute
-app.use('*', rateLimit())
+await runStartHooks()
+logger.info(`Server listening on ${server.url.href}`)
 
-app.use(
-  '/*',
-  cors({
-    origin: (_origin, c) => {
-      return getEnv(c).CORS_ORIGIN || 'http://localhost:3001'
-    },
-    allowHeaders: ['Content-Type', 'Authorization'],
-    allowMethods: ['POST', 'GET', 'OPTIONS'],
-    exposeHeaders: ['Content-Length'],
-    maxAge: 600,
-    credentials: true,
-  })
-)
-app.use(prettyJSON())
+let shuttingDown = false
 
-app.use('*', async (c, next) => {
-  try {
-    await authMiddleware(c, next)
-  } catch (err) {
-    c.status(500)
-    return c.json({
-      error: 'Internal server error',
-      details: err instanceof Error ? err.message : String(err),
-    })
+const shutdown = async (signal: string) => {
+  if (shuttingDown) {
+    logger.warn(`Received ${signal} again, exiting immediately`)
+    process.exit(1)
   }
-})
-
-const routes = [authRouter, appRouter] as const
-
-routes.forEach((route) => {
-  app.basePath('/api').route('/', route)
-})
+  shuttingDown = true
+  logger.info(`Received ${signal}, shutting down`)
 
-app.notFound((c) => {
-  return c.json({ message: 'Route Not Found' }, 404)
-})
+  // Fail readiness and stop accepting connections, in-flight requests go on
+  markShuttingDown()
+  void server.stop()
 
-app.onError((err, c) => {
-  if (err instanceof HTTPException) {
-    return c.json(
-      {
-        message: err.message,
-        error: err.cause || undefined,
-      },
-      err.status
+  const deadline = Date.now() + SHUTDOWN_TIMEOUT_MS
+  while (server.pendingRequests > 0 && Date.now() < deadline) {
+    await Bun.sleep(50)
+  }
+  if (server.pendingRequests > 0) {
+    logger.warn(
+      `Closing ${server.pendingRequests} request(s) still running after ${SHUTDOWN_TIMEOUT_MS}ms`
     )
+    await server.stop(true)
   }
 
-  c.status(500)
-  return c.json({
-    error: 'Internal server error',
-    details: err instanceof Error ? err.message : err,
+  await runShutdownHooks((name, error) => {
+    logger.error(`Shutdown hook "${name}" failed`, error)
   })
-})
+  logger.info('Shutdown complete')
+  process.exit(0)
+}
 
-export default {
-  port: 3000,
-  fetch: app.fetch,
+const onSignal = (signal: NodeJS.Signals) => void shutdown(signal)
+
+// `bun --hot` re-evaluates this module, drop the handlers of the previous run
+const hot = globalThis as { onShutdownSignal?: typeof onSignal }
+if (hot.onShutdownSignal) {
+  process.off('SIGTERM', hot.onShutdownSignal)
+  process.off('SIGINT', hot.onShutdownSignal)
 }
+hot.onShutdownSignal = onSignal
+process.on('SIGTERM', onSignal)
+process.on('SIGINT', onSignal)
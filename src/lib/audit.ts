@@ -0,0 +1,252 @@
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  like,
+  lt,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm'
+import type { Context } from 'hono'
+
+import db from '@/db'
+import { auditLog, type AuditChanges } from '@/db/schema/audit-schema'
+
+import { clientIp } from './client-ip'
+import { logger } from './logger'
+import { registerUserData, type UserDataSubject } from './user-data'
+
+export type AuditEntry = typeof auditLog.$inferSelect
+
+export interface AuditEvent {
+  /**
+   * `<resource>.<what happened>`, e.g. `role.updated`
+   */
+  action: string
+  target?: { type: string; id: string } | null
+  /**
+   * State before and after the action, only the fields that differ are
+   * stored
+   */
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  metadata?: Record<string, unknown> | null
+}
+
+/**
+ * Who performed an action and where the request came from
+ */
+export interface AuditSource {
+  actorId?: string | null
+  impersonatorId?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+  requestId?: string | null
+}
+
+/**
+ * Fields whose value differs between `before` and `after`
+ * Returns null when nothing changed
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges | null {
+  const changes: AuditChanges = {}
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ])
+  for (const key of keys) {
+    const from = before?.[key] ?? null
+    const to = after?.[key] ?? null
+    if (!Bun.deepEquals(from, to)) changes[key] = { before: from, after: to }
+  }
+  return Object.keys(changes).length ? changes : null
+}
+
+/**
+ * Append an entry to the audit log
+ * A failed write is logged with the whole entry rather than failing the
+ * action, which has already happened
+ */
+export async function recordAudit(
+  event: AuditEvent,
+  source: AuditSource
+): Promise<void> {
+  const entry = {
+    actorId: source.actorId ?? null,
+    impersonatorId: source.impersonatorId ?? null,
+    action: event.action,
+    targetType: event.target?.type ?? null,
+    targetId: event.target?.id ?? null,
+    changes: diffChanges(event.before, event.after),
+    metadata: event.metadata ?? null,
+    ipAddress: source.ipAddress ?? null,
+    userAgent: source.userAgent ?? null,
+    requestId: source.requestId ?? null,
+  }
+
+  try {
+    await db.insert(auditLog).values(entry)
+  } catch (err) {
+    logger.write('error', 'Audit log write failed', { entry, error: err })
+  }
+}
+
+/**
+ * Record an action of the current request, performed by its user
+ *
+ * @example
+ * await audit(c, {
+ *   action: 'role.updated',
+ *   target: { type: 'role', id: name },
+ *   before: { permissions: previous.permissions },
+ *   after: { permissions: updated.permissions },
+ * })
+ */
+export async function audit(c: Context, event: AuditEvent): Promise<void> {
+  const apiKey = c.get('apiKey')
+
+  await recordAudit(
+    apiKey
+      ? { ...event, metadata: { ...event.metadata, apiKeyId: apiKey.id } }
+      : event,
+    {
+      actorId: c.get('user')?.id,
+      impersonatorId: c.get('session')?.impersonatedBy,
+      ipAddress: clientIp(c),
+      userAgent: c.req.header('user-agent'),
+      requestId: c.get('requestId'),
+    }
+  )
+}
+
+export interface AuditLogFilters {
+  actorId?: string
+  /**
+   * Exact action, or a prefix ending with `*` such as `user.*`
+   */
+  action?: string
+  targetType?: string
+  targetId?: string
+  from?: Date
+  to?: Date
+  /**
+   * ID of the last entry of the previous page
+   */
+  cursor?: string
+  limit: number
+}
+
+/**
+ * Entries matching the filters, newest first
+ */
+export function queryAuditLog(filters: AuditLogFilters): Promise<AuditEntry[]> {
+  const conditions: (SQL | undefined)[] = [
+    filters.actorId ? eq(auditLog.actorId, filters.actorId) : undefined,
+    filters.targetType
+      ? eq(auditLog.targetType, filters.targetType)
+      : undefined,
+    filters.targetId ? eq(auditLog.targetId, filters.targetId) : undefined,
+    filters.from ? gte(auditLog.createdAt, filters.from) : undefined,
+    filters.to ? lte(auditLog.createdAt, filters.to) : undefined,
+    // IDs are UUIDv7, smaller ones are older
+    filters.cursor ? lt(auditLog.id, filters.cursor) : undefined,
+  ]
+  if (filters.action?.endsWith('*')) {
+    const prefix = filters.action.slice(0, -1).replace(/[\\%_]/g, '\\$&')
+    conditions.push(like(auditLog.action, `${prefix}%`))
+  } else if (filters.action) {
+    conditions.push(eq(auditLog.action, filters.action))
+  }
+
+  return db
+    .select()
+    .from(auditLog)
+    .where(and(...conditions))
+    .orderBy(desc(auditLog.id))
+    .limit(filters.limit)
+}
+
+/**
+ * Entries performed by a user or about them, including failed sign-ins
+ * with their email
+ */
+const involving = (user: UserDataSubject) =>
+  or(
+    eq(auditLog.actorId, user.id),
+    and(eq(auditLog.targetType, 'user'), eq(auditLog.targetId, user.id)),
+    sql`${auditLog.metadata}->>'email' = ${user.email}`
+  )
+
+// Entries are kept as a record of what happened, without who it was beyond
+// the user ID: request details and personal fields are removed
+registerUserData('auditLog', {
+  export: async (user) => {
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(involving(user))
+      .orderBy(desc(auditLog.id))
+    // Where others acted on the account their request details are theirs
+    return entries.map((entry) =>
+      entry.actorId === user.id
+        ? entry
+        : { ...entry, ipAddress: null, userAgent: null }
+    )
+  },
+  anonymize: async (user) => {
+    await db
+      .update(auditLog)
+      .set({
+        ipAddress: null,
+        userAgent: null,
+        changes: sql`${auditLog.changes} - 'name' - 'email' - 'image'`,
+        metadata: sql`${auditLog.metadata} - 'email'`,
+      })
+      .where(involving(user))
+  },
+})
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'action',
+  'actorId',
+  'impersonatorId',
+  'targetType',
+  'targetId',
+  'changes',
+  'metadata',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+] as const satisfies (keyof AuditEntry)[]
+
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value as string | number | boolean)
+  // Spreadsheets run cells starting with these as formulas, and values
+  // such as user agents come from clients
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Entries as CSV with a header row, objects are written as JSON
+ */
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => csvField(entry[column])).join(',')
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
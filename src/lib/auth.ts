@@ -1,45 +1,64 @@
-import { hash, verify } from '@node-rs/argon2'
+import { passkey as passkeyPlugin } from '@better-auth/passkey'
 import { betterAuth } from 'better-auth'
 import { drizzleAdapter } from 'better-auth/adapters/drizzle'
-import { admin as adminPlugin } from 'better-auth/plugins'
+import { createAuthMiddleware, isAPIError } from 'better-auth/api'
+import {
+  admin as adminPlugin,
+  openAPI,
+  organization as organizationPlugin,
+  twoFactor as twoFactorPlugin,
+} from 'better-auth/plugins'
 import { randomUUIDv7 } from 'bun'
 
 import db from '@/db'
-import { account, session, user, verification } from '@/db/schema/auth-schema'
+import {
+  account,
+  invitation,
+  member,
+  organization,
+  passkey,
+  session,
+  twoFactor,
+  user,
+  verification,
+} from '@/db/schema/auth-schema'
 
-import { ac, admin, user as userPermissions } from '@/auth/permissions'
+import { accountDeletionPlugin } from '@/auth/account-deletion-plugin'
+import { accountLockoutPlugin } from '@/auth/account-lockout-plugin'
+import type { ApiKeyPrincipal } from '@/auth/api-keys'
+import { auditLogPlugin } from '@/auth/audit-plugin'
+import { passwordPlugin } from '@/auth/password-plugin'
+import { ac, BUILT_IN_ROLES } from '@/auth/permissions'
+import { markSessionRevoked } from '@/auth/session-revocations'
 import { getEnv } from '@/env'
 
-export const hashPassword = async (password: string) => {
-  const hashedPassword = await hash(password, {
-    algorithm: 2, // Argon2id
-    memoryCost: 19456, // 19 MiB
-    timeCost: 2,
-    parallelism: 1,
-    outputLen: 32,
-  })
-  return hashedPassword
-}
+import { CLIENT_IP_HEADER } from './client-ip'
+import { sendMail } from './mailer'
+import { hashPassword, verifyPassword } from './password'
 
-export const verifyPassword = async (
-  password: string,
-  hashedPassword: string
-) => {
-  const isValid = await verify(hashedPassword, password, {
-    algorithm: 2, // Argon2id
-    memoryCost: 19456, // 19 MiB
-    timeCost: 2,
-    parallelism: 1,
-    outputLen: 32,
-  })
-  return isValid
-}
+/**
+ * Endpoints whose new sessions passed a second factor: TOTP and backup codes
+ * after a password, or a passkey on its own
+ */
+const SECOND_FACTOR_PATHS = new Set([
+  '/two-factor/verify-totp',
+  '/two-factor/verify-backup-code',
+  '/passkey/verify-authentication',
+])
+
+// Sessions are read from a signed cookie for this long before the
+// database is checked again, revoked ones are caught by authMiddleware
+const COOKIE_CACHE_MAX_AGE = 5 * 60
 
 export const auth = betterAuth({
   advanced: {
     database: {
       generateId: () => randomUUIDv7(),
     },
+    ipAddress: {
+      // Set by the auth router from clientIp(), see src/routes/auth.ts
+      ipAddressHeaders: [CLIENT_IP_HEADER],
+    },
   },
   database: drizzleAdapter(db, {
     provider: 'pg', // or "mysql", "sqlite"
@@ -48,10 +67,37 @@ export const auth = betterAuth({
       session,
       account,
       verification,
+      organization,
+      member,
+      invitation,
+      twoFactor,
+      passkey,
     },
   }),
+  databaseHooks: {
+    session: {
+      create: {
+        before: async (session, ctx) => {
+          if (!ctx?.path || !SECOND_FACTOR_PATHS.has(ctx.path)) return
+          return { data: { ...session, secondFactorVerifiedAt: new Date() } }
+        },
+      },
+      delete: {
+        after: async (session) => {
+          await markSessionRevoked(session.id, COOKIE_CACHE_MAX_AGE * 1000)
+        },
+      },
+    },
+  },
   emailAndPassword: {
     enabled: true,
+    requireEmailVerification: getEnv().REQUIRE_EMAIL_VERIFICATION,
+    revokeSessionsOnPasswordReset: true,
+    sendResetPassword: async ({ user, url }) => {
+      await sendMail('reset-password', user.email, { name: user.name, url })
+    },
+    // The rest of the policy is applied by passwordPlugin()
+    minPasswordLength: getEnv().PASSWORD_MIN_LENGTH,
     password: {
       hash(password) {
         return hashPassword(password)
@@ -61,17 +107,72 @@ export const auth = betterAuth({
       },
     },
   },
+  emailVerification: {
+    sendOnSignUp: true,
+    autoSignInAfterVerification: true,
+    sendVerificationEmail: async ({ user, url }) => {
+      await sendMail('verify-email', user.email, { name: user.name, url })
+    },
+  },
+  hooks: {
+    // A new password signs the user out everywhere else, whatever the
+    // client asked for
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== '/change-password') return
+      return { context: { body: { ...ctx.body, revokeOtherSessions: true } } }
+    }),
+    after: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== '/admin/set-user-password') return
+      if (isAPIError(ctx.context.returned)) return
+      await ctx.context.internalAdapter.deleteSessions(ctx.body.userId)
+    }),
+  },
   plugins: [
     adminPlugin({
       ac,
-      roles: {
-        admin,
-        user: userPermissions,
-      },
+      // Better Auth's own admin endpoints only know the built-in roles,
+      // our guards also read the ones in the database
+      roles: BUILT_IN_ROLES,
       defaultRole: 'user',
       adminRoles: ['admin'],
     }),
+    // Organizations with owner/admin/member roles, see orgGuard() in
+    // src/auth/auth-guard.ts
+    organizationPlugin({
+      invitationExpiresIn: 60 * 60 * 48, // 48 hours
+      // Links to the frontend, which accepts through
+      // /api/auth/organization/accept-invitation
+      sendInvitationEmail: async (data) => {
+        await sendMail('organization-invitation', data.email, {
+          organization: data.organization.name,
+          inviter: data.inviter.user.name,
+          url: new URL(`/accept-invitation/${data.id}`, getEnv().CORS_ORIGIN)
+            .href,
+        })
+      },
+    }),
+    // TOTP with backup codes, users with it enabled finish signing in at
+    // /api/auth/two-factor/verify-totp
+    twoFactorPlugin({ issuer: 'honotreez' }),
+    passkeyPlugin({
+      rpName: 'honotreez',
+      // Passkeys are created and used on the frontend
+      rpID: getEnv().PASSKEY_RP_ID ?? new URL(getEnv().CORS_ORIGIN).hostname,
+      origin: getEnv().CORS_ORIGIN,
+    }),
+    // Anonymised users stay out of admin listings, roles and organizations
+    accountDeletionPlugin(),
+    // Progressive delays and lockout on wrong passwords
+    accountLockoutPlugin(),
+    // Strength, breach and reuse checks on new passwords, hash upgrades
+    passwordPlugin(),
+    // After the two-factor plugin, see src/auth/audit-plugin.ts
+    auditLogPlugin(),
+    // Source of the auth endpoints in /api/openapi.json, see src/routes/docs.ts
+    openAPI({ disableDefaultReference: true }),
   ],
+  // Only called server side through auth.api
+  disabledPaths: ['/open-api/generate-schema'],
   rateLimit: {
     storage: 'database',
     modelName: 'rateLimit',
@@ -82,9 +183,16 @@ export const auth = betterAuth({
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // 1 day (every 1 day the session expiration is updated)
     freshAge: 60 * 60 * 24, // 1 day (the session is fresh if created within the last 24 hours)
+    additionalFields: {
+      secondFactorVerifiedAt: {
+        type: 'date',
+        required: false,
+        input: false,
+      },
+    },
     cookieCache: {
       enabled: true,
-      maxAge: 5 * 60, // Cache duration in seconds
+      maxAge: COOKIE_CACHE_MAX_AGE,
     },
   },
   trustedOrigins: [
@@ -99,11 +207,41 @@ export const auth = betterAuth({
         defaultValue: 'user',
         input: false, // don't allow user to set role
       },
+      deletionRequestedAt: {
+        type: 'date',
+        required: false,
+        input: false,
+      },
+      deletedAt: {
+        type: 'date',
+        required: false,
+        input: false,
+      },
     },
   },
 })
 
+/**
+ * Organization of the session a request acts for, set by orgGuard()
+ */
+export interface ActiveOrganization {
+  id: string
+  name: string
+  slug: string
+  memberId: string
+  /**
+   * Role within the organization, comma-separated when several
+   */
+  role: string
+}
+
 export interface AuthType {
   user: typeof auth.$Infer.Session.user | null
   session: typeof auth.$Infer.Session.session | null
+  organization: ActiveOrganization | null
+  /**
+   * Set when the request was authenticated with an API key rather than a
+   * session, `session` is then null
+   */
+  apiKey: ApiKeyPrincipal | null
 }
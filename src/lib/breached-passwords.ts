@@ -0,0 +1,68 @@
+import { getEnv } from '@/env'
+
+// Longer than any `HASH:COUNT` line, so a read always holds a whole one
+const READ_SIZE = 128
+
+interface Line {
+  hash: string
+  /** Offset just past the line's newline */
+  end: number
+}
+
+/**
+ * First line starting at or after `offset`
+ */
+const lineFrom = async (
+  file: Bun.BunFile,
+  offset: number
+): Promise<Line | null> => {
+  // Read from the byte before, a newline there means a line starts here
+  const from = Math.max(0, offset - 1)
+  const chunk = await file.slice(from, from + 2 * READ_SIZE).text()
+
+  const start = offset === 0 ? 0 : chunk.indexOf('\n') + 1
+  if (offset !== 0 && start === 0) return null
+  const newline = chunk.indexOf('\n', start)
+  const line = chunk.slice(start, newline === -1 ? undefined : newline)
+  if (!line.trim()) return null
+
+  return {
+    hash: line.slice(0, 40).toUpperCase(),
+    end: from + (newline === -1 ? chunk.length : newline + 1),
+  }
+}
+
+/**
+ * Binary search of a file of `SHA1:COUNT` lines sorted by hash, as written
+ * by the Pwned Passwords downloader, without loading it
+ */
+const contains = async (path: string, target: string): Promise<boolean> => {
+  const file = Bun.file(path)
+  let low = 0
+  let high = file.size
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    const line = await lineFrom(file, middle)
+    if (!line || line.hash > target) {
+      high = middle
+    } else if (line.hash < target) {
+      low = line.end
+    } else {
+      return true
+    }
+  }
+  return (await lineFrom(file, low))?.hash === target
+}
+
+/**
+ * Whether a password appears in the breached passwords file
+ * (`BREACHED_PASSWORDS_FILE`), always false when none is configured
+ */
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  const path = getEnv().BREACHED_PASSWORDS_FILE
+  if (!path) return false
+
+  const hash = new Bun.CryptoHasher('sha1').update(password).digest('hex')
+  return contains(path, hash.toUpperCase())
+}
@@ -0,0 +1,118 @@
+import { BlockList, isIP } from 'node:net'
+
+import type { Context } from 'hono'
+
+import { getEnv } from '@/env'
+
+/**
+ * Header carrying the resolved client IP to Better Auth
+ * Always overwritten by the server, never trusted from the client
+ */
+export const CLIENT_IP_HEADER = 'x-client-ip'
+
+interface SocketAddressProvider {
+  requestIP?: (request: Request) => { address: string } | null
+}
+
+let trustedCache: { source: string; list: BlockList } | undefined
+
+const getTrustedProxies = (proxies: string[]): BlockList => {
+  const source = proxies.join(',')
+  if (trustedCache?.source === source) return trustedCache.list
+
+  const list = new BlockList()
+  for (const proxy of proxies) {
+    const [address, prefix] = proxy.split('/')
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4'
+    list.addSubnet(
+      address,
+      prefix ? Number(prefix) : type === 'ipv6' ? 128 : 32,
+      type
+    )
+  }
+
+  trustedCache = { source, list }
+  return list
+}
+
+/**
+ * Strip brackets, ports and IPv4-mapped prefixes from an address
+ * Returns null when the value is not an IP (e.g. obfuscated `Forwarded` nodes)
+ */
+const normalizeIp = (value: string): string | null => {
+  let ip = value.trim().replace(/^"|"$/g, '')
+
+  if (ip.startsWith('[')) {
+    ip = ip.slice(1, ip.indexOf(']'))
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    // IPv4 with port
+    ip = ip.slice(0, ip.lastIndexOf(':'))
+  }
+
+  if (ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4) {
+    ip = ip.slice(7)
+  }
+
+  return isIP(ip) ? ip : null
+}
+
+const isTrusted = (list: BlockList, ip: string) =>
+  list.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4')
+
+/**
+ * Parse the `for` parameters of an RFC 7239 `Forwarded` header, in order
+ */
+const parseForwarded = (header: string): (string | null)[] =>
+  header.split(',').map((element) => {
+    for (const pair of element.split(';')) {
+      const [name, value] = pair.split('=')
+      if (name?.trim().toLowerCase() === 'for' && value) {
+        return normalizeIp(value)
+      }
+    }
+    return null
+  })
+
+const getSocketAddress = (c: Context): string | null => {
+  const server = c.env as SocketAddressProvider | undefined
+  const address = server?.requestIP?.(c.req.raw)?.address
+  return address ? normalizeIp(address) : null
+}
+
+/**
+ * Resolve the client IP address for a request
+ *
+ * Starts from the socket address and only honors `Forwarded`,
+ * `X-Forwarded-For` or `X-Real-IP` when the peer is listed in
+ * `TRUSTED_PROXIES`. The forwarded chain is walked from the right, skipping
+ * trusted proxies, so the first untrusted hop is the client.
+ *
+ * @returns The client IP, or null when the runtime exposes no socket address
+ */
+export function clientIp(c: Context): string | null {
+  const trusted = getTrustedProxies(getEnv().TRUSTED_PROXIES)
+  const remote = getSocketAddress(c)
+
+  if (!remote || !isTrusted(trusted, remote)) {
+    return remote
+  }
+
+  const forwarded = c.req.header('forwarded')
+  const forwardedFor = c.req.header('x-forwarded-for')
+  const chain = forwarded
+    ? parseForwarded(forwarded)
+    : forwardedFor
+      ? forwardedFor.split(',').map(normalizeIp)
+      : [normalizeIp(c.req.header('x-real-ip') ?? '')]
+
+  let client = remote
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const hop = chain[i]
+    // Anything we can't read can't be vouched for, stop at the last proxy
+    if (!hop) break
+    client = hop
+    if (!isTrusted(trusted, hop)) break
+  }
+
+  return client
+}
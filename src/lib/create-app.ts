@@ -3,12 +3,18 @@ import type { RequestIdVariables } from 'hono/request-id'
 
 import type { AuthType } from './auth'
 
-interface AppVariables extends AuthType {
-  requestId: RequestIdVariables
+interface AppVariables extends AuthType, RequestIdVariables {
+  traceId: string
+  spanId: string
 }
 
+/**
+ * Env of the app and of every router mounted on it
+ */
+export type AppEnv = { Variables: AppVariables }
+
 export function createRouter() {
-  return new Hono<{ Variables: AppVariables }>()
+  return new Hono<AppEnv>()
 }
 
 export default function createApp() {
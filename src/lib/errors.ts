@@ -0,0 +1,239 @@
+import { STATUS_CODES } from 'node:http'
+
+import type { Context, ErrorHandler, NotFoundHandler } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+
+import { getEnv } from '@/env'
+
+import { logger } from './logger'
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * RFC 9457 problem details body
+ */
+export interface Problem {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  requestId?: string
+  [extension: string]: unknown
+}
+
+interface AppErrorOptions {
+  /**
+   * Problem type slug, rendered as `urn:problem:<code>`
+   * Omitted for plain status errors, which use `about:blank`
+   */
+  code?: string
+  title?: string
+  /**
+   * Extension members added to the problem body, e.g. validation issues
+   */
+  extensions?: Record<string, unknown>
+  cause?: unknown
+}
+
+const problemType = (code?: string) =>
+  code ? `urn:problem:${code}` : 'about:blank'
+
+const statusTitle = (status: number) => STATUS_CODES[status] ?? 'Error'
+
+/**
+ * Base class for errors that are safe to show to clients
+ * `message` is rendered as the problem `detail`
+ *
+ * @example
+ * throw new AppError(402, 'Subscription expired', { code: 'payment-required' })
+ */
+export class AppError extends Error {
+  readonly code?: string
+  readonly title: string
+  readonly extensions: Record<string, unknown>
+
+  constructor(
+    readonly status: ContentfulStatusCode,
+    message: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause })
+    this.name = new.target.name
+    this.code = options.code
+    this.title = options.title ?? statusTitle(status)
+    this.extensions = options.extensions ?? {}
+  }
+}
+
+export interface ValidationIssue {
+  /**
+   * Request part the field belongs to
+   */
+  location?: 'body' | 'query' | 'params' | 'headers'
+  /**
+   * Dotted path of the invalid field, empty for the root
+   */
+  path: string
+  message: string
+}
+
+export class ValidationError extends AppError {
+  constructor(
+    readonly errors: ValidationIssue[],
+    message = 'Request validation failed'
+  ) {
+    super(422, message, { code: 'validation-error', extensions: { errors } })
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found') {
+    super(404, message, { code: 'not-found' })
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(
+    message = 'Resource already exists',
+    options: Pick<AppErrorOptions, 'cause'> = {}
+  ) {
+    super(409, message, { code: 'conflict', cause: options.cause })
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Unauthorized Access') {
+    super(401, message, { code: 'unauthorized' })
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Insufficient permissions') {
+    super(403, message, { code: 'forbidden' })
+  }
+}
+
+export class RateLimitedError extends AppError {
+  /**
+   * @param retryAfter - Seconds until the client may retry
+   */
+  constructor(
+    message = 'Too many requests, please try again later.',
+    readonly retryAfter?: number
+  ) {
+    super(429, message, {
+      code: 'rate-limited',
+      extensions: retryAfter === undefined ? {} : { retryAfter },
+    })
+  }
+}
+
+// SQLSTATE codes raised by Postgres for constraint violations
+const PG_ERROR = {
+  UNIQUE_VIOLATION: '23505',
+  FOREIGN_KEY_VIOLATION: '23503',
+  NOT_NULL_VIOLATION: '23502',
+  CHECK_VIOLATION: '23514',
+} as const
+
+/**
+ * Find the Postgres SQLSTATE of an error, Drizzle wraps the driver error
+ * in `cause`
+ */
+const pgErrorCode = (err: unknown): string | undefined => {
+  for (let current = err; current instanceof Error; current = current.cause) {
+    const { code } = current as { code?: unknown }
+    if (typeof code === 'string' && /^[0-9A-Z]{5}$/.test(code)) return code
+  }
+  return undefined
+}
+
+/**
+ * Map known Postgres constraint violations to client errors
+ * The driver message names tables and values, so it is never exposed
+ */
+export function fromDatabaseError(err: unknown): AppError | undefined {
+  switch (pgErrorCode(err)) {
+    case PG_ERROR.UNIQUE_VIOLATION:
+      return new ConflictError(undefined, { cause: err })
+    case PG_ERROR.FOREIGN_KEY_VIOLATION:
+      return new AppError(422, 'Referenced resource does not exist', {
+        code: 'invalid-reference',
+        cause: err,
+      })
+    case PG_ERROR.NOT_NULL_VIOLATION:
+    case PG_ERROR.CHECK_VIOLATION:
+      return new AppError(422, 'Request violates a data constraint', {
+        code: 'constraint-violation',
+        cause: err,
+      })
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Normalize anything thrown by a handler into an AppError
+ * Unknown errors become an opaque 500
+ */
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) return err
+
+  if (err instanceof HTTPException) {
+    return new AppError(err.status as ContentfulStatusCode, err.message, {
+      cause: err,
+    })
+  }
+
+  return (
+    fromDatabaseError(err) ??
+    new AppError(500, 'An unexpected error occurred', { cause: err })
+  )
+}
+
+/**
+ * Render an error as `application/problem+json`
+ */
+export function problem(c: Context, error: AppError): Response {
+  const body: Problem = {
+    type: problemType(error.code),
+    title: error.title,
+    status: error.status,
+    detail: error.message,
+    instance: c.req.path,
+    requestId: c.get('requestId') as string | undefined,
+    ...error.extensions,
+  }
+
+  // The original message and stack help locally but leak internals in
+  // production
+  if (error.status >= 500 && getEnv().NODE_ENV !== 'production') {
+    const cause = error.cause instanceof Error ? error.cause : error
+    body.detail = cause.message
+    body.stack = cause.stack?.split('\n')
+  }
+
+  return c.json(body, error.status, { 'Content-Type': PROBLEM_CONTENT_TYPE })
+}
+
+export const errorHandler: ErrorHandler = (err, c) => {
+  // Exceptions carrying a prepared response (e.g. basic auth) keep it
+  if (err instanceof HTTPException && err.res) {
+    return err.getResponse()
+  }
+
+  const error = toAppError(err)
+  if (error.status >= 500) {
+    logger.write('error', 'Unhandled error', {
+      requestId: c.get('requestId'),
+      error: err,
+    })
+  }
+
+  return problem(c, error)
+}
+
+export const notFoundHandler: NotFoundHandler = (c) =>
+  problem(c, new NotFoundError('Route not found'))
@@ -0,0 +1,103 @@
+type HealthCheckFn = () => unknown
+
+interface HealthCheckOptions {
+  /**
+   * Fail the check when it takes longer than this
+   * @default 2000
+   */
+  timeoutMs?: number
+}
+
+interface HealthCheckResult {
+  status: 'ok' | 'error'
+  latencyMs: number
+  error?: string
+}
+
+export interface ReadinessReport {
+  status: 'ok' | 'error' | 'shutting_down'
+  checks: Record<string, HealthCheckResult>
+}
+
+const checks = new Map<
+  string,
+  { fn: HealthCheckFn; options: Required<HealthCheckOptions> }
+>()
+
+let shuttingDown = false
+
+/**
+ * Register a readiness check, replacing any check with the same name
+ * The check fails when it throws, rejects or times out
+ *
+ * @example
+ * registerHealthCheck('database', () => pool.query('SELECT 1'))
+ */
+export function registerHealthCheck(
+  name: string,
+  fn: HealthCheckFn,
+  options: HealthCheckOptions = {}
+): void {
+  checks.set(name, { fn, options: { timeoutMs: options.timeoutMs ?? 2000 } })
+}
+
+/**
+ * Make readiness fail from now on so load balancers stop routing traffic
+ */
+export function markShuttingDown(): void {
+  shuttingDown = true
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown
+}
+
+const runCheck = async (
+  fn: HealthCheckFn,
+  timeoutMs: number
+): Promise<HealthCheckResult> => {
+  const start = performance.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    await Promise.race([
+      Promise.resolve().then(fn),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        )
+      }),
+    ])
+    return { status: 'ok', latencyMs: Math.round(performance.now() - start) }
+  } catch (err) {
+    return {
+      status: 'error',
+      latencyMs: Math.round(performance.now() - start),
+      error: err instanceof Error ? err.message : String(err),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Run every registered check in parallel
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  if (shuttingDown) {
+    return { status: 'shutting_down', checks: {} }
+  }
+
+  const entries = await Promise.all(
+    Array.from(
+      checks,
+      async ([name, { fn, options }]) =>
+        [name, await runCheck(fn, options.timeoutMs)] as const
+    )
+  )
+  const results = Object.fromEntries(entries)
+  const healthy = entries.every(([, result]) => result.status === 'ok')
+
+  return { status: healthy ? 'ok' : 'error', checks: results }
+}
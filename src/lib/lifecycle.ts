@@ -0,0 +1,44 @@
+type LifecycleHook = () => Promise<unknown> | void
+
+const startHooks: { name: string; hook: LifecycleHook }[] = []
+const shutdownHooks: { name: string; hook: LifecycleHook }[] = []
+
+/**
+ * Run `hook` once the server is listening
+ */
+export function onStart(name: string, hook: LifecycleHook): void {
+  startHooks.push({ name, hook })
+}
+
+/**
+ * Run `hook` during graceful shutdown, after in-flight requests are drained
+ * Hooks run in reverse registration order, so modules registered first
+ * (logger, database) are torn down last
+ *
+ * @example
+ * onShutdown('database', () => pool.end())
+ */
+export function onShutdown(name: string, hook: LifecycleHook): void {
+  shutdownHooks.push({ name, hook })
+}
+
+export async function runStartHooks(): Promise<void> {
+  for (const { hook } of startHooks) {
+    await hook()
+  }
+}
+
+/**
+ * Run every shutdown hook, reporting failures without stopping the others
+ */
+export async function runShutdownHooks(
+  onError: (name: string, error: unknown) => void
+): Promise<void> {
+  for (const { name, hook } of [...shutdownHooks].reverse()) {
+    try {
+      await hook()
+    } catch (err) {
+      onError(name, err)
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  createWriteStream,
+  existsSync,
+  renameSync,
+  rmSync,
+  statSync,
+  type WriteStream,
+} from 'node:fs'
+
+import type { LogEntry, LogTransport } from './logger'
+
+/**
+ * Write log lines to stdout, errors to stderr
+ */
+export class StdoutTransport implements LogTransport {
+  write(line: string, entry: LogEntry): void {
+    if (entry.level === 'error') {
+      process.stderr.write(`${line}\n`)
+    } else {
+      process.stdout.write(`${line}\n`)
+    }
+  }
+}
+
+interface FileTransportOptions {
+  /**
+   * Path of the active log file
+   */
+  path: string
+  /**
+   * Rotate once the file reaches this size in bytes
+   * @default 10485760 (10 MiB)
+   */
+  maxSize?: number
+  /**
+   * Number of rotated files to keep (`app.log.1` is the most recent)
+   * @default 5
+   */
+  maxFiles?: number
+}
+
+/**
+ * Append log lines to a file, rotating it by size
+ */
+export class FileTransport implements LogTransport {
+  private stream: WriteStream
+  private size: number
+  private path: string
+  private maxSize: number
+  private maxFiles: number
+
+  constructor(options: FileTransportOptions) {
+    this.path = options.path
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024
+    this.maxFiles = options.maxFiles ?? 5
+    this.size = existsSync(this.path) ? statSync(this.path).size : 0
+    this.stream = createWriteStream(this.path, { flags: 'a' })
+  }
+
+  write(line: string): void {
+    const data = `${line}\n`
+    const bytes = Buffer.byteLength(data)
+
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      this.rotate()
+    }
+
+    this.stream.write(data)
+    this.size += bytes
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve))
+  }
+
+  private rotate(): void {
+    // Pending writes still land in the renamed file, the stream keeps its fd
+    this.stream.end()
+
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true })
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (existsSync(`${this.path}.${i}`)) {
+        renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`)
+      }
+    }
+    renameSync(this.path, `${this.path}.1`)
+
+    this.stream = createWriteStream(this.path, { flags: 'a' })
+    this.size = 0
+  }
+}
+
+/**
+ * Keep log lines in memory, useful for asserting on logs in tests
+ */
+export class MemoryTransport implements LogTransport {
+  lines: string[] = []
+  entries: LogEntry[] = []
+
+  write(line: string, entry: LogEntry): void {
+    this.lines.push(line)
+    this.entries.push(entry)
+  }
+
+  clear(): void {
+    this.lines = []
+    this.entries = []
+  }
+}
@@ -1,9 +1,23 @@
 import dayjs from 'dayjs'
 import type { Context, MiddlewareHandler } from 'hono'
+import { routePath } from 'hono/route'
 import { customAlphabet } from 'nanoid'
 
 import { getEnv } from '@/env'
 
+import { clientIp } from './client-ip'
+import { onShutdown } from './lifecycle'
+import { FileTransport, StdoutTransport } from './log-transports'
+import {
+  formatTraceparent,
+  parseTraceparent,
+  runInSpan,
+  SPAN_KIND,
+  SPAN_STATUS,
+  startSpan,
+} from './tracing'
+import { REQUEST_ID_HEADER } from './utils'
+
 // ANSI color codes for terminal output
 const colors = {
   reset: '\x1b[0m',
@@ -19,28 +33,117 @@ const colors = {
   gray: '\x1b[90m',
 }
 
-type LogLevel = 'info' | 'warn' | 'error' | 'debug'
+// Headers carrying credentials, left out of debug logs of requests and
+// responses
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+])
+
+/**
+ * Headers without the ones carrying credentials
+ */
+const loggableHeaders = (headers: Headers) =>
+  Object.fromEntries(
+    Array.from(headers.entries()).filter(
+      ([key]) => !CREDENTIAL_HEADERS.has(key.toLowerCase())
+    )
+  )
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFormat = 'pretty' | 'json'
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+}
+
+export interface LogEntry {
+  time: string
+  level: LogLevel
+  message: string
+  [field: string]: unknown
+}
+
+export interface LogTransport {
+  /**
+   * Write one rendered log line (no trailing newline)
+   */
+  write: (line: string, entry: LogEntry) => void
+}
 
 interface LogOptions {
   timestamp?: boolean
   colors?: boolean
   requestId?: boolean
+  /**
+   * Minimum level to output
+   * @default LOG_LEVEL env var
+   */
+  level?: LogLevel
+  /**
+   * `pretty` for colored text, `json` for one NDJSON object per line
+   * @default LOG_FORMAT env var
+   */
+  format?: LogFormat
+  /**
+   * Destinations for log lines
+   * @default stdout, plus a rotating file when LOG_FILE is set
+   */
+  transports?: LogTransport[]
 }
 
-class Logger {
+// Errors have no enumerable fields, spell them out for JSON output
+const serializeErrors = (_key: string, value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value
+
+const defaultTransports = (logFile?: string): LogTransport[] => {
+  if (!logFile) return [new StdoutTransport()]
+
+  const file = new FileTransport({ path: logFile })
+  onShutdown('logFile', () => file.close())
+  return [new StdoutTransport(), file]
+}
+
+export class Logger {
   private options: Required<LogOptions>
 
   constructor(options: LogOptions = {}) {
+    const env = getEnv()
+    const format = options.format ?? env.LOG_FORMAT
+
     this.options = {
       timestamp: options.timestamp ?? true,
-      colors: options.colors ?? true,
+      colors: options.colors ?? format === 'pretty',
       requestId: options.requestId ?? true,
+      level: options.level ?? env.LOG_LEVEL,
+      format,
+      transports: options.transports ?? defaultTransports(env.LOG_FILE),
     }
   }
 
-  private colorize(text: string, color: keyof typeof colors): string {
+  get format(): LogFormat {
+    return this.options.format
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.options.level]
+  }
+
+  /**
+   * Wrap text in ANSI styles, left plain when colors are off (e.g. log files)
+   */
+  colorize(text: string, ...styles: (keyof typeof colors)[]): string {
     if (!this.options.colors) return text
-    return `${colors[color]}${text}${colors.reset}`
+    return `${styles.map((style) => colors[style]).join('')}${text}${colors.reset}`
   }
 
   private getTimestamp(): string {
@@ -61,34 +164,73 @@ class Logger {
     return this.colorize(`[${level.toUpperCase()}]`, levelColors[level])
   }
 
-  private log(level: LogLevel, message: string, data?: unknown) {
-    const parts = [this.getTimestamp(), this.formatLogLevel(level), message]
+  /**
+   * Write a log entry with structured fields
+   * In pretty mode `pretty` replaces the default rendering of the entry
+   */
+  write(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown> = {},
+    pretty?: string
+  ) {
+    if (!this.isLevelEnabled(level)) return
+
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...fields,
+    }
 
-    console.log(parts.filter(Boolean).join(' '))
+    if (this.options.format === 'json') {
+      this.emit(JSON.stringify(entry, serializeErrors), entry)
+      return
+    }
 
-    if (data !== undefined) {
-      if (typeof data === 'object') {
-        console.log(JSON.stringify(data, null, 2))
-      } else {
-        console.log(data)
-      }
+    this.emit(pretty ?? this.formatPretty(level, message, fields), entry)
+  }
+
+  private formatPretty(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown>
+  ): string {
+    const requestId =
+      this.options.requestId && typeof fields.requestId === 'string'
+        ? this.colorize(`[${fields.requestId}]`, 'gray')
+        : ''
+    const parts = [this.getTimestamp(), requestId, this.formatLogLevel(level)]
+    const line = [...parts, message].filter(Boolean).join(' ')
+
+    const { data } = fields
+    if (data === undefined) return line
+
+    return typeof data === 'string'
+      ? `${line}\n${data}`
+      : `${line}\n${JSON.stringify(data, serializeErrors, 2)}`
+  }
+
+  private emit(line: string, entry: LogEntry) {
+    for (const transport of this.options.transports) {
+      transport.write(line, entry)
     }
   }
 
   info(message: string, data?: unknown) {
-    this.log('info', message, data)
+    this.write('info', message, data === undefined ? {} : { data })
   }
 
   warn(message: string, data?: unknown) {
-    this.log('warn', message, data)
+    this.write('warn', message, data === undefined ? {} : { data })
   }
 
   error(message: string, data?: unknown) {
-    this.log('error', message, data)
+    this.write('error', message, data === undefined ? {} : { data })
   }
 
   debug(message: string, data?: unknown) {
-    this.log('debug', message, data)
+    this.write('debug', message, data === undefined ? {} : { data })
   }
 }
 
@@ -127,148 +269,215 @@ function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
 }
 
+interface CombinedLoggerOptions {
+  /**
+   * Logger instance to write to
+   * @default The shared `logger`
+   */
+  logger?: Logger
+}
+
 // Combined logger middleware - handles request logging, body logging, and error logging
-export function combinedLogger(): MiddlewareHandler {
+export function combinedLogger(
+  options: CombinedLoggerOptions = {}
+): MiddlewareHandler {
+  const log = options.logger ?? logger
+
   return async (c: Context, next) => {
     const start = Date.now()
     const method = c.req.method
     const path = c.req.path
+    const ip = clientIp(c) ?? 'unknown'
     const customId = customAlphabet(
       '12346789ABCDEFGHJKLMNPQRTUVWXYabcdefghijkmnpqrtwxyz'
     )
     const requestId = `TRX-${customId()}`
 
-    // Store request ID in context
+    // Continue the caller's trace when a valid traceparent is sent
+    const span = startSpan(`${method} ${path}`, {
+      parent: parseTraceparent(
+        c.req.header('traceparent'),
+        c.req.header('tracestate')
+      ),
+      kind: SPAN_KIND.SERVER,
+      attributes: {
+        'http.request.method': method,
+        'url.path': path,
+        'client.address': ip,
+        'http.request_id': requestId,
+      },
+    })
+    const { traceId, spanId } = span.context
+
+    // Store request and trace IDs in context
     c.set('requestId', requestId)
+    c.set('traceId', traceId)
+    c.set('spanId', spanId)
 
     // Log incoming request
-    const methodColored = `${colors[getMethodColor(method)]}${colors.bright}${method}${colors.reset}`
-    const pathColored = `${colors.cyan}${path}${colors.reset}`
-    const requestIdColored = `${colors.gray}[${requestId}]${colors.reset}`
-
-    console.log(
-      `${colors.gray}[${dayjs().format('YYYY-MM-DD HH:mm:ss.SSS')}]${colors.reset} ${requestIdColored} ${colors.blue}[INCOMING]${colors.reset} ${methodColored} ${pathColored}`
+    const timestamp = () =>
+      log.colorize(`[${dayjs().format('YYYY-MM-DD HH:mm:ss.SSS')}]`, 'gray')
+    const methodColored = log.colorize(method, getMethodColor(method), 'bright')
+    const pathColored = log.colorize(path, 'cyan')
+    const requestIdColored = log.colorize(`[${requestId}]`, 'gray')
+    const ipColored = log.colorize(ip, 'gray')
+
+    log.write(
+      'info',
+      'Incoming request',
+      { requestId, traceId, spanId, method, path, ip },
+      `${timestamp()} ${requestIdColored} ${log.colorize('[INCOMING]', 'blue')} ${methodColored} ${pathColored} ${ipColored}`
     )
 
-    // Log query parameters if present
-    const url = new URL(c.req.url)
-    if (url.search) {
-      const params = Object.fromEntries(url.searchParams)
-      logger.debug('Query Parameters', params)
-    }
+    if (log.isLevelEnabled('debug')) {
+      // Log query parameters if present
+      const url = new URL(c.req.url)
+      if (url.search) {
+        const params = Object.fromEntries(url.searchParams)
+        log.write('debug', 'Query Parameters', { requestId, data: params })
+      }
 
-    // Log request headers (optional - can be verbose)
-    if (getEnv().LOG_LEVEL === 'debug') {
-      const headers = Object.fromEntries(
-        Array.from(c.req.raw.headers.entries()).filter(
-          ([key]) => !['authorization', 'cookie'].includes(key.toLowerCase())
-        )
-      )
-      logger.debug('Request Headers', headers)
-    }
+      // Log request headers (can be verbose)
+      log.write('debug', 'Request Headers', {
+        requestId,
+        data: loggableHeaders(c.req.raw.headers),
+      })
 
-    // Log request body for POST/PUT/PATCH requests
-    if (['POST', 'PUT', 'PATCH'].includes(method)) {
-      try {
-        const contentType = c.req.header('content-type')
-        if (contentType?.includes('application/json')) {
-          // Clone the request to avoid consuming the original body
-          const clonedRequest = c.req.raw.clone()
-          const body = await clonedRequest.json()
-
-          // Sanitize sensitive fields
-          const sanitizedBody = JSON.parse(JSON.stringify(body))
-          const sensitiveFields = [
-            'password',
-            'token',
-            'secret',
-            'apiKey',
-            'creditCard',
-          ]
-
-          const sanitize = (obj: Record<string, unknown>) => {
-            for (const key in obj) {
-              if (
-                sensitiveFields.some((field) =>
-                  key.toLowerCase().includes(field.toLowerCase())
-                )
-              ) {
-                obj[key] = '***REDACTED***'
-              } else if (typeof obj[key] === 'object' && obj[key] !== null) {
-                sanitize(obj[key] as Record<string, unknown>)
+      // Log request body for POST/PUT/PATCH requests
+      if (['POST', 'PUT', 'PATCH'].includes(method)) {
+        try {
+          const contentType = c.req.header('content-type')
+          if (contentType?.includes('application/json')) {
+            // Clone the request to avoid consuming the original body
+            const clonedRequest = c.req.raw.clone()
+            const body = await clonedRequest.json()
+
+            // Sanitize sensitive fields
+            const sanitizedBody = JSON.parse(JSON.stringify(body))
+            const sensitiveFields = [
+              'password',
+              'token',
+              'secret',
+              'apiKey',
+              'creditCard',
+            ]
+
+            const sanitize = (obj: Record<string, unknown>) => {
+              for (const key in obj) {
+                if (
+                  sensitiveFields.some((field) =>
+                    key.toLowerCase().includes(field.toLowerCase())
+                  )
+                ) {
+                  obj[key] = '***REDACTED***'
+                } else if (typeof obj[key] === 'object' && obj[key] !== null) {
+                  sanitize(obj[key] as Record<string, unknown>)
+                }
               }
             }
-          }
 
-          sanitize(sanitizedBody)
+            sanitize(sanitizedBody)
 
-          logger.debug(`[${requestId}] Request Body`, sanitizedBody)
+            log.write('debug', 'Request Body', {
+              requestId,
+              data: sanitizedBody,
+            })
+          }
+        } catch {
+          // Silently fail if body parsing fails
         }
-      } catch {
-        // Silently fail if body parsing fails
       }
     }
 
-    let error: Error | undefined
-
     try {
-      await next()
-
-      c.header('X-Request-ID', requestId)
-    } catch (err) {
-      error = err instanceof Error ? err : new Error(String(err))
-
-      // Log error details
-      const errorColored = `${colors.red}${colors.bright}[ERROR]${colors.reset}`
-      console.error(
-        `${colors.gray}[${dayjs().format('YYYY-MM-DD HH:mm:ss.SSS')}]${colors.reset} ${requestIdColored} ${errorColored} ${error.message}`
-      )
-      console.error(error.stack)
-
-      // Additional error logging
-      logger.error('Unhandled error in request', {
-        requestId,
-        method,
-        path,
-        error: error.message,
-        stack: error.stack,
-        timestamp: dayjs().format('YYYY-MM-DD HH:mm:ss.SSS'),
-      })
-
-      throw err
+      await runInSpan(span, next)
     } finally {
       const end = Date.now()
       const duration = end - start
       const status = c.res.status
+      const user = c.get('user')
+
+      c.header(REQUEST_ID_HEADER, requestId)
+      c.header('traceparent', formatTraceparent(span.context))
+      if (span.context.traceState) {
+        c.header('tracestate', span.context.traceState)
+      }
+
+      // Errors reach app.onError before control returns here, what is left
+      // of them is c.error and the status it answered with
+      const failed = status >= 500
+      const error = failed && c.error instanceof Error ? c.error : undefined
+
+      if (error) {
+        span.recordException(error)
+        log.write(
+          'error',
+          error.message,
+          { requestId, traceId, spanId, method, path, ip, error },
+          `${timestamp()} ${requestIdColored} ${log.colorize('[ERROR]', 'red', 'bright')} ${error.message}\n${error.stack}`
+        )
+      }
+
+      // Name server spans by route pattern to keep cardinality low
+      const route = routePath(c, -1)
+      span.updateName(`${method} ${route}`).setAttributes({
+        'http.response.status_code': status,
+        'http.route': route,
+        'enduser.id': user?.id,
+      })
+      if (failed && !error) span.setStatus(SPAN_STATUS.ERROR)
+      span.end()
 
       // Format response log
-      const statusColored = `${colors[getStatusColor(status)]}${colors.bright}${status}${colors.reset}`
-      const durationColored = `${colors.gray}${duration}ms${colors.reset}`
-      const statusType = error
-        ? `${colors.red}[ERROR]${colors.reset}`
-        : `${colors.green}[COMPLETED]${colors.reset}`
+      const statusColored = log.colorize(
+        String(status),
+        getStatusColor(status),
+        'bright'
+      )
+      const durationColored = log.colorize(`${duration}ms`, 'gray')
+      const statusType = failed
+        ? log.colorize('[ERROR]', 'red')
+        : log.colorize('[COMPLETED]', 'green')
 
       // Get response size if available
       const contentLength = c.res.headers.get('content-length')
       const sizeInfo = contentLength
-        ? ` ${colors.gray}${formatBytes(parseInt(contentLength))}${colors.reset}`
+        ? ` ${log.colorize(formatBytes(parseInt(contentLength)), 'gray')}`
         : ''
 
-      console.log(
-        `${colors.gray}[${dayjs().format('YYYY-MM-DD HH:mm:ss.SSS')}]${colors.reset} ${requestIdColored} ${statusType} ${methodColored} ${pathColored} ${statusColored} ${durationColored}${sizeInfo}`
+      log.write(
+        failed ? 'error' : 'info',
+        failed ? 'Request failed' : 'Request completed',
+        {
+          requestId,
+          traceId,
+          spanId,
+          method,
+          path,
+          status,
+          duration,
+          size: contentLength ? parseInt(contentLength) : undefined,
+          userId: user?.id,
+          ip,
+        },
+        `${timestamp()} ${requestIdColored} ${statusType} ${methodColored} ${pathColored} ${statusColored} ${durationColored}${sizeInfo}`
       )
 
       // Log slow requests (> 1000ms)
       if (duration > 1000) {
-        logger.warn(
-          `Slow request detected: ${method} ${path} took ${duration}ms`
+        log.write(
+          'warn',
+          `Slow request detected: ${method} ${path} took ${duration}ms`,
+          { requestId, traceId, method, path, duration }
         )
       }
 
       // Log response headers in debug mode
-      if (getEnv().LOG_LEVEL === 'debug' && !error) {
-        const responseHeaders = Object.fromEntries(c.res.headers.entries())
-        logger.debug('Response Headers', responseHeaders)
+      if (!failed) {
+        log.write('debug', 'Response Headers', {
+          requestId,
+          data: loggableHeaders(c.res.headers),
+        })
       }
     }
   }
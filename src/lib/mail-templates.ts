@@ -0,0 +1,117 @@
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;')
+
+/**
+ * Wrap paragraphs and a call-to-action link in the shared HTML layout
+ * Every value is escaped, templates pass plain text
+ */
+const layout = (
+  paragraphs: string[],
+  action: { label: string; url: string }
+) => `<!doctype html>
+<html>
+  <body style="font-family: sans-serif; line-height: 1.5; color: #1f2937">
+    ${paragraphs.map((text) => `<p>${escapeHtml(text)}</p>`).join('\n    ')}
+    <p>
+      <a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: #166534; color: #fff; text-decoration: none; border-radius: 6px">${escapeHtml(action.label)}</a>
+    </p>
+    <p style="color: #6b7280; font-size: 12px">${escapeHtml(action.url)}</p>
+  </body>
+</html>
+`
+
+/**
+ * Transactional emails, keyed by the name passed to `sendMail()`
+ */
+export const mailTemplates = {
+  'verify-email': (data: { name: string; url: string }): RenderedMail => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      'Confirm your email address to finish setting up your account.',
+    ]
+    return {
+      subject: 'Verify your email address',
+      text: `${paragraphs.join('\n\n')}\n\n${data.url}\n`,
+      html: layout(paragraphs, { label: 'Verify email', url: data.url }),
+    }
+  },
+
+  'reset-password': (data: { name: string; url: string }): RenderedMail => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      'Someone asked to reset the password of your account. The link expires in an hour, ignore this email if it wasn’t you.',
+    ]
+    return {
+      subject: 'Reset your password',
+      text: `${paragraphs.join('\n\n')}\n\n${data.url}\n`,
+      html: layout(paragraphs, { label: 'Reset password', url: data.url }),
+    }
+  },
+
+  'account-locked': (data: {
+    name: string
+    minutes: number
+    url: string
+  }): RenderedMail => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Too many sign-ins with a wrong password were made on your account, so password sign-ins are paused for ${data.minutes} minutes.`,
+      'If it wasn’t you, someone may be guessing your password. Choose a new one, ideally one you don’t use anywhere else.',
+    ]
+    return {
+      subject: 'Your account was temporarily locked',
+      text: `${paragraphs.join('\n\n')}\n\n${data.url}\n`,
+      html: layout(paragraphs, { label: 'Reset password', url: data.url }),
+    }
+  },
+
+  'account-deletion-scheduled': (data: {
+    name: string
+    deleteAt: Date
+    url: string
+  }): RenderedMail => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Your account will be deleted on ${data.deleteAt.toUTCString()}, along with your personal data.`,
+      'Until then you can change your mind and keep your account. If you didn’t ask for this, keep it and change your password.',
+    ]
+    return {
+      subject: 'Your account is scheduled for deletion',
+      text: `${paragraphs.join('\n\n')}\n\n${data.url}\n`,
+      html: layout(paragraphs, { label: 'Keep my account', url: data.url }),
+    }
+  },
+
+  'organization-invitation': (data: {
+    organization: string
+    inviter: string
+    url: string
+  }): RenderedMail => {
+    const paragraphs = [
+      `${data.inviter} invited you to join ${data.organization}.`,
+      'The invitation expires in 48 hours.',
+    ]
+    return {
+      subject: `Join ${data.organization}`,
+      text: `${paragraphs.join('\n\n')}\n\n${data.url}\n`,
+      html: layout(paragraphs, { label: 'Accept invitation', url: data.url }),
+    }
+  },
+}
+
+export type MailTemplate = keyof typeof mailTemplates
+
+export type MailTemplateData<T extends MailTemplate> = Parameters<
+  (typeof mailTemplates)[T]
+>[0]
@@ -0,0 +1,275 @@
+import { and, asc, eq, inArray, lte } from 'drizzle-orm'
+
+import db from '@/db'
+import { mailOutbox } from '@/db/schema/mail-schema'
+
+import { getEnv } from '@/env'
+
+import { onShutdown, onStart } from './lifecycle'
+import { logger } from './logger'
+import {
+  mailTemplates,
+  type MailTemplate,
+  type MailTemplateData,
+  type RenderedMail,
+} from './mail-templates'
+import {
+  FileMailTransport,
+  MemoryMailTransport,
+  SmtpTransport,
+  type MailTransport,
+} from './mail-transports'
+import { mailDeliveriesTotal } from './metrics'
+import { registerUserData } from './user-data'
+
+// Attempts before a message is marked failed
+const MAX_ATTEMPTS = 5
+
+// Messages claimed per run
+const BATCH_SIZE = 20
+
+// Claimed messages are retried by another worker after this, should the
+// one holding them die mid-delivery
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000
+
+const POLL_INTERVAL_MS = 5000
+
+// Sent and failed messages are deleted once older than this, checked hourly
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Wait before the next attempt: 30 seconds, doubled after every failure,
+ * at most an hour
+ */
+const retryDelay = (attempts: number) =>
+  Math.min(30_000 * 2 ** (attempts - 1), 60 * 60 * 1000)
+
+/**
+ * Transport selected by `MAIL_TRANSPORT`
+ */
+export function createTransportFromEnv(env: {
+  MAIL_TRANSPORT: 'smtp' | 'file' | 'memory'
+  SMTP_URL?: string
+  MAIL_FILE_DIR: string
+}): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_URL) {
+        throw new Error('SMTP_URL is required when MAIL_TRANSPORT=smtp')
+      }
+      return new SmtpTransport(env.SMTP_URL)
+    case 'memory':
+      return new MemoryMailTransport()
+    default:
+      return new FileMailTransport(env.MAIL_FILE_DIR)
+  }
+}
+
+let transport: MailTransport | undefined
+
+/**
+ * Shared transport, created on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const created = createTransportFromEnv(getEnv())
+    onShutdown('mailTransport', () => created.close?.())
+    transport = created
+  }
+  return transport
+}
+
+// Set while the worker runs, delivers newly queued mail without waiting
+// for the next poll
+let wake: (() => void) | undefined
+
+/**
+ * Render a template and queue it in the outbox
+ * Delivery happens in the background with retries, so this only fails
+ * when the message can't be stored
+ *
+ * @example
+ * await sendMail('reset-password', user.email, { name: user.name, url })
+ */
+export async function sendMail<T extends MailTemplate>(
+  template: T,
+  to: string,
+  data: MailTemplateData<T>
+): Promise<void> {
+  const render = mailTemplates[template] as (
+    data: MailTemplateData<T>
+  ) => RenderedMail
+  await db.insert(mailOutbox).values({ template, to, ...render(data) })
+  wake?.()
+}
+
+/**
+ * Claim due messages so concurrent workers (other replicas) skip them
+ */
+const claimDue = async (now: Date) => {
+  const due = db
+    .select({ id: mailOutbox.id })
+    .from(mailOutbox)
+    .where(
+      and(eq(mailOutbox.status, 'pending'), lte(mailOutbox.nextAttemptAt, now))
+    )
+    .orderBy(asc(mailOutbox.nextAttemptAt))
+    .limit(BATCH_SIZE)
+    .for('update', { skipLocked: true })
+
+  return db
+    .update(mailOutbox)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) })
+    .where(inArray(mailOutbox.id, due))
+    .returning()
+}
+
+/**
+ * Deliver due messages once, returns how many were sent
+ * Failures are recorded on the message and retried later
+ */
+export async function processOutbox(): Promise<number> {
+  const messages = await claimDue(new Date())
+  const { MAIL_FROM } = getEnv()
+  let sent = 0
+
+  for (const message of messages) {
+    const attempts = message.attempts + 1
+    try {
+      await getMailTransport().send({
+        from: MAIL_FROM,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+      // Links in the body may still work, it isn't kept once delivered
+      await db
+        .update(mailOutbox)
+        .set({
+          status: 'sent',
+          attempts,
+          lastError: null,
+          sentAt: new Date(),
+          text: '',
+          html: null,
+        })
+        .where(eq(mailOutbox.id, message.id))
+      mailDeliveriesTotal.inc({ template: message.template, status: 'sent' })
+      sent++
+    } catch (err) {
+      const failed = attempts >= MAX_ATTEMPTS
+      await db
+        .update(mailOutbox)
+        .set({
+          attempts,
+          lastError: err instanceof Error ? err.message : String(err),
+          ...(failed
+            ? { status: 'failed', text: '', html: null }
+            : { nextAttemptAt: new Date(Date.now() + retryDelay(attempts)) }),
+        })
+        .where(eq(mailOutbox.id, message.id))
+      mailDeliveriesTotal.inc({
+        template: message.template,
+        status: failed ? 'failed' : 'retry',
+      })
+      logger.write(failed ? 'error' : 'warn', 'Mail delivery failed', {
+        mailId: message.id,
+        template: message.template,
+        attempts,
+        error: err,
+      })
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Delete sent and failed messages older than the retention period, returns
+ * how many were deleted
+ */
+export async function purgeOutbox(now = new Date()): Promise<number> {
+  const purged = await db
+    .delete(mailOutbox)
+    .where(
+      and(
+        inArray(mailOutbox.status, ['sent', 'failed']),
+        lte(mailOutbox.createdAt, new Date(now.getTime() - RETENTION_MS))
+      )
+    )
+    .returning({ id: mailOutbox.id })
+  return purged.length
+}
+
+/**
+ * Poll the outbox and purge it hourly until the returned function is
+ * called, which waits for the current runs to finish
+ */
+export function startOutboxWorker(
+  intervalMs = POLL_INTERVAL_MS
+): () => Promise<void> {
+  let running: Promise<void> | undefined
+  let purging: Promise<void> | undefined
+
+  const run = () => {
+    running ??= processOutbox()
+      .then(() => undefined)
+      .catch((err: unknown) => {
+        logger.error('Mail outbox run failed', err)
+      })
+      .finally(() => {
+        running = undefined
+      })
+  }
+
+  const purge = () => {
+    purging ??= purgeOutbox()
+      .then(() => undefined)
+      .catch((err: unknown) => {
+        logger.error('Mail outbox purge failed', err)
+      })
+      .finally(() => {
+        purging = undefined
+      })
+  }
+
+  const timer = setInterval(run, intervalMs)
+  const purgeTimer = setInterval(purge, PURGE_INTERVAL_MS)
+  wake = run
+  run()
+  purge()
+
+  return async () => {
+    clearInterval(timer)
+    clearInterval(purgeTimer)
+    wake = undefined
+    await Promise.all([running, purging])
+  }
+}
+
+// Bodies stay out, those not yet sent may hold links that still work
+registerUserData('mail', {
+  export: (user) =>
+    db
+      .select({
+        id: mailOutbox.id,
+        template: mailOutbox.template,
+        subject: mailOutbox.subject,
+        status: mailOutbox.status,
+        sentAt: mailOutbox.sentAt,
+        createdAt: mailOutbox.createdAt,
+      })
+      .from(mailOutbox)
+      .where(eq(mailOutbox.to, user.email))
+      .orderBy(asc(mailOutbox.createdAt)),
+  anonymize: async (user) => {
+    await db.delete(mailOutbox).where(eq(mailOutbox.to, user.email))
+  },
+})
+
+// Only the server runs the worker, tests call processOutbox() themselves
+onStart('mailOutbox', () => {
+  onShutdown('mailOutbox', startOutboxWorker())
+})
@@ -0,0 +1,205 @@
+import type { MiddlewareHandler } from 'hono'
+import { routePath } from 'hono/route'
+
+type Labels = Record<string, string>
+
+interface Metric {
+  name: string
+  /**
+   * Render the metric in Prometheus text exposition format
+   */
+  render: () => string
+}
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  )
+  return pairs.length ? `{${pairs.join(',')}}` : ''
+}
+
+// Stable key for a label set, independent of property order
+const labelKey = (labels: Labels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key)
+    if (entry) {
+      entry.value += value
+    } else {
+      this.values.set(key, { labels, value })
+    }
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ]
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines.join('\n')
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>()
+
+  /**
+   * @param collect - Called before every scrape to refresh the values
+   */
+  constructor(
+    readonly name: string,
+    private help: string,
+    private collect?: (gauge: Gauge) => void
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value })
+  }
+
+  render(): string {
+    this.collect?.(this)
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+    ]
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines.join('\n')
+  }
+}
+
+export class Histogram implements Metric {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.values.get(key)
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.values.set(key, entry)
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ]
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`
+        )
+      })
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      )
+    }
+    return lines.join('\n')
+  }
+}
+
+class Registry {
+  private metrics = new Map<string, Metric>()
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+
+  render(): string {
+    return `${Array.from(this.metrics.values(), (metric) => metric.render()).join('\n\n')}\n`
+  }
+}
+
+export const registry = new Registry()
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export const httpRequestsTotal = registry.register(
+  new Counter('http_requests_total', 'Total HTTP requests')
+)
+
+export const httpRequestDuration = registry.register(
+  new Histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency in seconds',
+    [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  )
+)
+
+export const rateLimitExceededTotal = registry.register(
+  new Counter(
+    'rate_limit_exceeded_total',
+    'Requests rejected with 429 by the rate limiter'
+  )
+)
+
+export const authDeniedTotal = registry.register(
+  new Counter(
+    'auth_denied_total',
+    'Requests rejected with 401 or 403 by the auth guards'
+  )
+)
+
+export const mailDeliveriesTotal = registry.register(
+  new Counter(
+    'mail_deliveries_total',
+    'Outbox delivery attempts by template and outcome (sent, retry, failed)'
+  )
+)
+
+/**
+ * Record request count and latency by route pattern and status
+ */
+export function httpMetrics(): MiddlewareHandler {
+  return async (c, next) => {
+    const start = performance.now()
+
+    try {
+      await next()
+    } finally {
+      const labels = {
+        method: c.req.method,
+        // Route pattern, not the raw path, to keep label cardinality bounded
+        route: routePath(c, -1),
+        status: String(c.res.status),
+      }
+      httpRequestsTotal.inc(labels)
+      httpRequestDuration.observe(labels, (performance.now() - start) / 1000)
+    }
+  }
+}
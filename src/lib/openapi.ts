@@ -0,0 +1,450 @@
+import type { MiddlewareHandler } from 'hono'
+import type { RouterRoute } from 'hono/types'
+import { z } from 'zod'
+
+import type { PermissionRequirement } from '@/auth/permissions'
+
+import type { ValidationSchemas } from './validate'
+
+const OPENAPI_META = Symbol('openapi')
+
+export interface RouteResponse {
+  description: string
+  schema?: z.ZodType
+}
+
+/**
+ * Documentation for a single operation, see `describeRoute()`
+ */
+export interface RouteDoc {
+  summary?: string
+  description?: string
+  tags?: string[]
+  operationId?: string
+  deprecated?: boolean
+  /**
+   * Leave the route out of the document
+   */
+  hide?: boolean
+  responses?: Record<number, RouteResponse>
+}
+
+/**
+ * Metadata contributed by middleware (validators, guards, rate limiters)
+ * and merged into the operations they run for
+ */
+export interface OpenApiMeta extends RouteDoc {
+  request?: ValidationSchemas
+  auth?: {
+    /**
+     * Security schemes accepted, any one of them is enough
+     * @default ['cookieAuth', 'apiKeyAuth']
+     */
+    schemes?: SecurityScheme[]
+    roles?: string[]
+    permissions?: PermissionRequirement
+    /**
+     * Requires an active organization, with one of `roles` when given
+     */
+    organization?: { roles?: string[] }
+    /**
+     * Requires a session that recently passed a second factor
+     */
+    secondFactor?: boolean
+  }
+  rateLimit?: { limit: number; windowMs: number }
+}
+
+type SecurityScheme = keyof typeof SECURITY_SCHEMES
+
+type JsonSchema = Record<string, unknown>
+
+interface Operation {
+  [key: string]: unknown
+  tags?: string[]
+  parameters?: JsonSchema[]
+  responses?: Record<string, unknown>
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  paths: Record<string, Record<string, Operation>>
+  components: Record<string, Record<string, unknown>>
+  tags?: { name: string; description?: string }[]
+}
+
+const SECURITY_SCHEMES = {
+  cookieAuth: {
+    type: 'apiKey',
+    in: 'cookie',
+    name: 'better-auth.session_token',
+    description: 'Session cookie set by the Better Auth sign-in endpoints',
+  },
+  apiKeyAuth: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-API-Key',
+    description:
+      'Key created through /api/api-keys, also accepted as `Authorization: Bearer <key>`',
+  },
+  metricsToken: {
+    type: 'http',
+    scheme: 'bearer',
+    description: '`METRICS_TOKEN` presented by Prometheus scrapers',
+  },
+} as const
+
+const PROBLEM_SCHEMA = {
+  type: 'object',
+  description: 'RFC 9457 problem details',
+  required: ['type', 'title', 'status'],
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    requestId: { type: 'string' },
+  },
+}
+
+const problemResponse = (description: string, schema = 'Problem') => ({
+  description,
+  content: {
+    'application/problem+json': {
+      schema: { $ref: `#/components/schemas/${schema}` },
+    },
+  },
+})
+
+const COMPONENTS = {
+  securitySchemes: SECURITY_SCHEMES,
+  schemas: {
+    Problem: PROBLEM_SCHEMA,
+    ValidationProblem: {
+      allOf: [
+        { $ref: '#/components/schemas/Problem' },
+        {
+          type: 'object',
+          properties: {
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['path', 'message'],
+                properties: {
+                  location: {
+                    type: 'string',
+                    enum: ['body', 'query', 'params', 'headers'],
+                  },
+                  path: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+  },
+  responses: {
+    ValidationFailed: problemResponse(
+      'Request validation failed',
+      'ValidationProblem'
+    ),
+    Unauthorized: problemResponse('Not authenticated'),
+    Forbidden: problemResponse('Authenticated but not allowed'),
+    TooManyRequests: {
+      ...problemResponse('Rate limit exceeded'),
+      headers: {
+        'Retry-After': {
+          description: 'Seconds until the client may retry',
+          schema: { type: 'integer' },
+        },
+      },
+    },
+  },
+}
+
+/**
+ * Attach OpenAPI metadata to a middleware, returning the same middleware
+ */
+export function withOpenApi<T extends MiddlewareHandler>(
+  middleware: T,
+  meta: OpenApiMeta
+): T {
+  return Object.assign(middleware, { [OPENAPI_META]: meta })
+}
+
+const getMeta = (handler: unknown): OpenApiMeta | undefined =>
+  (handler as { [OPENAPI_META]?: OpenApiMeta })[OPENAPI_META]
+
+/**
+ * Document a route, placed before the handler
+ *
+ * @example
+ * ```ts
+ * dashboard.get(
+ *   '/',
+ *   describeRoute({
+ *     summary: 'Dashboard status',
+ *     responses: { 200: { description: 'OK', schema: StatusSchema } },
+ *   }),
+ *   (c) => c.json({ message: 'OK' })
+ * )
+ * ```
+ */
+export function describeRoute(doc: RouteDoc): MiddlewareHandler {
+  return withOpenApi((_c, next) => next(), doc)
+}
+
+const toJsonSchema = (schema: z.ZodType, io: 'input' | 'output') => {
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+  }) as JsonSchema
+  return json
+}
+
+// `/posts/:id{[0-9]+}` becomes `/posts/{id}`
+const toOpenApiPath = (path: string) =>
+  path.replace(/:(\w+)(\{[^}]*\})?\??/g, '{$1}')
+
+const pathParamNames = (path: string) =>
+  Array.from(path.matchAll(/:(\w+)/g), (match) => match[1])
+
+/**
+ * Whether a middleware registered on `pattern` runs for `path`
+ */
+const coversPath = (pattern: string, path: string) => {
+  if (pattern === '*' || pattern === '/*') return true
+  if (pattern.endsWith('/*')) {
+    const prefix = pattern.slice(0, -2)
+    return path === prefix || path.startsWith(`${prefix}/`)
+  }
+  return pattern === path
+}
+
+const objectParameters = (
+  schema: z.ZodType,
+  location: 'query' | 'path' | 'header'
+) => {
+  const json = toJsonSchema(schema, 'input')
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>
+  const required = new Set((json.required ?? []) as string[])
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.has(name),
+    schema: property,
+    ...(property.description ? { description: property.description } : {}),
+  }))
+}
+
+const buildOperation = (
+  path: string,
+  metas: OpenApiMeta[]
+): Operation | null => {
+  const meta: OpenApiMeta = Object.assign({}, ...metas)
+  if (meta.hide) return null
+
+  // Responses and auth requirements accumulate across middleware
+  const responses: Record<string, unknown> = {}
+  for (const { responses: documented = {} } of metas) {
+    for (const [status, response] of Object.entries(documented)) {
+      responses[status] = {
+        description: response.description,
+        ...(response.schema
+          ? {
+              content: {
+                'application/json': {
+                  schema: toJsonSchema(response.schema, 'output'),
+                },
+              },
+            }
+          : {}),
+      }
+    }
+  }
+  if (!Object.keys(responses).some((status) => status.startsWith('2'))) {
+    responses['200'] = { description: 'Successful response' }
+  }
+
+  const operation: Operation = {
+    summary: meta.summary,
+    description: meta.description,
+    tags: meta.tags,
+    operationId: meta.operationId,
+    deprecated: meta.deprecated,
+  }
+
+  const request = meta.request ?? {}
+  const documentedParams = request.params
+    ? objectParameters(request.params, 'path')
+    : []
+  const parameters = [
+    ...documentedParams,
+    // Undeclared path params are still required strings
+    ...pathParamNames(path)
+      .filter((name) => !documentedParams.some((p) => p.name === name))
+      .map((name) => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      })),
+    ...(request.query ? objectParameters(request.query, 'query') : []),
+    ...(request.headers ? objectParameters(request.headers, 'header') : []),
+  ]
+  if (parameters.length) operation.parameters = parameters
+
+  if (request.body) {
+    const schema = toJsonSchema(request.body, 'input')
+    operation.requestBody = {
+      required: !request.body.safeParse(undefined).success,
+      content: {
+        'application/json': { schema },
+        'application/x-www-form-urlencoded': { schema },
+        'multipart/form-data': { schema },
+      },
+    }
+  }
+  if (Object.keys(request).length) {
+    responses['422'] = { $ref: '#/components/responses/ValidationFailed' }
+  }
+
+  const auths = metas.flatMap((m) => (m.auth ? [m.auth] : []))
+  if (auths.length) {
+    const schemes = auths.at(-1)?.schemes ?? ['cookieAuth', 'apiKeyAuth']
+    operation.security = schemes.map((scheme) => ({ [scheme]: [] }))
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' }
+
+    const roles = auths.flatMap((auth) => auth.roles ?? [])
+    const permissions = auths.flatMap((auth) =>
+      auth.permissions ? [auth.permissions] : []
+    )
+    if (roles.length) operation['x-required-roles'] = roles
+    // Chained guards must all pass
+    if (permissions.length) {
+      operation['x-required-permissions'] =
+        permissions.length === 1 ? permissions[0] : { all: permissions }
+    }
+    const organizations = auths.flatMap((auth) =>
+      auth.organization ? [auth.organization] : []
+    )
+    const organizationRoles = organizations.flatMap((org) => org.roles ?? [])
+    if (organizations.length) operation['x-active-organization'] = true
+    if (auths.some((auth) => auth.secondFactor)) {
+      operation['x-requires-second-factor'] = true
+    }
+    if (organizationRoles.length) {
+      operation['x-organization-roles'] = organizationRoles
+    }
+    if (roles.length || permissions.length || organizations.length) {
+      responses['403'] = { $ref: '#/components/responses/Forbidden' }
+    }
+  }
+
+  const limits = metas.flatMap((m) => (m.rateLimit ? [m.rateLimit] : []))
+  if (limits.length) {
+    operation['x-rate-limits'] = limits
+    responses['429'] = { $ref: '#/components/responses/TooManyRequests' }
+  }
+
+  operation.responses = responses
+  return JSON.parse(JSON.stringify(operation)) as Operation
+}
+
+interface GenerateOptions {
+  title?: string
+  version?: string
+  description?: string
+  /**
+   * Extra document merged in, e.g. the Better Auth endpoints
+   */
+  merge?: Pick<OpenApiDocument, 'paths'> &
+    Partial<Pick<OpenApiDocument, 'components' | 'tags'>>
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the routes registered on `app`
+ *
+ * Operations come from `describeRoute()` and from metadata attached by
+ * `validate()`, the auth guards and `rateLimit()` to middleware on the route
+ * or on a wildcard path covering it.
+ */
+export function generateOpenApiDocument(
+  app: { routes: RouterRoute[] },
+  options: GenerateOptions = {}
+): OpenApiDocument {
+  const endpoints = new Map<string, { method: string; path: string }>()
+  const middleware: { path: string; meta: OpenApiMeta }[] = []
+
+  for (const route of app.routes) {
+    const meta = getMeta(route.handler)
+    if (route.method === 'ALL') {
+      if (meta) middleware.push({ path: route.path, meta })
+    } else if (!route.path.includes('*')) {
+      endpoints.set(`${route.method} ${route.path}`, route)
+    }
+  }
+
+  const metasFor = (method: string, path: string) => [
+    ...middleware.filter((m) => coversPath(m.path, path)).map((m) => m.meta),
+    ...app.routes
+      .filter((route) => route.method === method && route.path === path)
+      .flatMap((route) => getMeta(route.handler) ?? []),
+  ]
+
+  const paths: OpenApiDocument['paths'] = {}
+  for (const { method, path } of endpoints.values()) {
+    const operation = buildOperation(path, metasFor(method, path))
+    if (!operation) continue
+    const key = toOpenApiPath(path)
+    paths[key] = { ...paths[key], [method.toLowerCase()]: operation }
+  }
+
+  // Merged operations still go through the global middleware
+  const { merge } = options
+  for (const [path, operations] of Object.entries(merge?.paths ?? {})) {
+    const global = middleware
+      .filter((m) => coversPath(m.path, path))
+      .map((m) => m.meta)
+    const limits = global.flatMap((m) => (m.rateLimit ? [m.rateLimit] : []))
+
+    paths[path] = Object.fromEntries(
+      Object.entries(operations).map(([method, operation]) => [
+        method,
+        limits.length
+          ? {
+              ...operation,
+              'x-rate-limits': limits,
+              responses: {
+                ...operation.responses,
+                429: { $ref: '#/components/responses/TooManyRequests' },
+              },
+            }
+          : operation,
+      ])
+    )
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title ?? 'API',
+      version: options.version ?? '1.0.0',
+      description: options.description,
+    },
+    tags: merge?.tags,
+    paths,
+    components: {
+      ...merge?.components,
+      securitySchemes: COMPONENTS.securitySchemes,
+      schemas: { ...merge?.components?.schemas, ...COMPONENTS.schemas },
+      responses: COMPONENTS.responses,
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import { hash, verify } from '@node-rs/argon2'
+
+import { getEnv } from '@/env'
+
+const OUTPUT_LENGTH = 32
+
+// `$argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>`
+const ARGON2ID_PARAMS = /^\$argon2id\$v=\d+\$m=(\d+),t=(\d+),p=(\d+)\$/
+
+// `$2a$`, `$2b$` or `$2y$`, from accounts imported from other systems
+const BCRYPT = /^\$2[aby]\$/
+
+const hashOptions = () => {
+  const env = getEnv()
+  return {
+    algorithm: 2 as const, // Argon2id
+    memoryCost: env.PASSWORD_HASH_MEMORY_COST,
+    timeCost: env.PASSWORD_HASH_TIME_COST,
+    parallelism: env.PASSWORD_HASH_PARALLELISM,
+    outputLen: OUTPUT_LENGTH,
+  }
+}
+
+/**
+ * Hash a password with the configured Argon2id parameters
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return hash(password, hashOptions())
+}
+
+/**
+ * Check a password against a stored hash, Argon2id with any parameters or
+ * bcrypt
+ */
+export async function verifyPassword(
+  password: string,
+  hashedPassword: string
+): Promise<boolean> {
+  if (BCRYPT.test(hashedPassword)) {
+    return Bun.password.verify(password, hashedPassword, 'bcrypt')
+  }
+  // The parameters are read from the hash
+  return verify(hashedPassword, password)
+}
+
+/**
+ * Whether a stored hash was made by another algorithm or with other
+ * parameters than new hashes are
+ */
+export function needsRehash(hashedPassword: string): boolean {
+  const params = ARGON2ID_PARAMS.exec(hashedPassword)
+  if (!params) return true
+
+  const { memoryCost, timeCost, parallelism } = hashOptions()
+  return (
+    Number(params[1]) !== memoryCost ||
+    Number(params[2]) !== timeCost ||
+    Number(params[3]) !== parallelism
+  )
+}
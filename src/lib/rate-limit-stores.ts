@@ -0,0 +1,305 @@
+import { RedisClient } from 'bun'
+import { and, eq, gt, lt, sql } from 'drizzle-orm'
+
+import db from '@/db'
+import { rateLimitCounter } from '@/db/schema/rate-limit-schema'
+
+import { registerHealthCheck } from './health'
+import { onShutdown } from './lifecycle'
+import type {
+  RateLimitBucketHit,
+  RateLimitHit,
+  RateLimitLogHit,
+  RateLimitStore,
+} from './rate-limit'
+
+/**
+ * Rate limit store backed by the `rate_limit_counter` table
+ * Counters are shared by every replica connected to the same database
+ */
+export class PostgresStore implements RateLimitStore {
+  async get(key: string): Promise<number | null> {
+    const [row] = await db
+      .select({ count: rateLimitCounter.count })
+      .from(rateLimitCounter)
+      .where(
+        and(
+          eq(rateLimitCounter.key, key),
+          gt(rateLimitCounter.expiresAt, sql`now()`)
+        )
+      )
+    return row?.count ?? null
+  }
+
+  async set(key: string, value: number, ttl: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttl)
+    await db
+      .insert(rateLimitCounter)
+      .values({ key, count: value, expiresAt })
+      .onConflictDoUpdate({
+        target: rateLimitCounter.key,
+        set: { count: value, expiresAt },
+      })
+  }
+
+  async increment(key: string, ttl: number): Promise<RateLimitHit> {
+    // Single upsert: start a new window when the row is missing or expired,
+    // otherwise bump the counter and keep the current expiry
+    const [row] = await db
+      .insert(rateLimitCounter)
+      .values({
+        key,
+        count: 1,
+        expiresAt: sql`now() + ${ttl} * interval '1 millisecond'`,
+      })
+      .onConflictDoUpdate({
+        target: rateLimitCounter.key,
+        set: {
+          count: sql`case when ${rateLimitCounter.expiresAt} <= now() then 1 else ${rateLimitCounter.count} + 1 end`,
+          expiresAt: sql`case when ${rateLimitCounter.expiresAt} <= now() then excluded.expires_at else ${rateLimitCounter.expiresAt} end`,
+        },
+      })
+      .returning({
+        count: rateLimitCounter.count,
+        ttl: sql<number>`floor(extract(epoch from ${rateLimitCounter.expiresAt} - now()) * 1000)`.mapWith(
+          Number
+        ),
+      })
+    return row
+  }
+
+  logHit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<RateLimitLogHit> {
+    return this.locked(key, now, async (row, tx) => {
+      const hits = (row.hits ?? []).filter((time) => time > now - windowMs)
+      const allowed = hits.length < limit
+      if (allowed) hits.push(now)
+
+      await tx
+        .update(rateLimitCounter)
+        .set({
+          count: hits.length,
+          // An empty log (limit 0) expires a window from now
+          expiresAt: new Date((hits.at(-1) ?? now) + windowMs),
+          hits,
+        })
+        .where(eq(rateLimitCounter.key, key))
+      return { allowed, count: hits.length, oldest: hits[0] ?? now }
+    })
+  }
+
+  takeToken(
+    key: string,
+    now: number,
+    interval: number,
+    windowMs: number
+  ): Promise<RateLimitBucketHit> {
+    return this.locked(key, now, async (row, tx) => {
+      let tat = Math.max(row.expiresAt.getTime(), now)
+      const allowed = tat + interval - now <= windowMs
+      if (allowed) {
+        tat += interval
+        await tx
+          .update(rateLimitCounter)
+          .set({ expiresAt: new Date(tat) })
+          .where(eq(rateLimitCounter.key, key))
+      }
+      return { allowed, tat }
+    })
+  }
+
+  async cleanup(): Promise<void> {
+    await db
+      .delete(rateLimitCounter)
+      .where(lt(rateLimitCounter.expiresAt, sql`now()`))
+  }
+
+  async ping(): Promise<void> {
+    await db
+      .select({ key: rateLimitCounter.key })
+      .from(rateLimitCounter)
+      .limit(1)
+  }
+
+  /**
+   * Run a read-modify-write on the row for `key` while holding its lock,
+   * creating an empty row first when missing
+   */
+  private locked<T>(
+    key: string,
+    now: number,
+    fn: (
+      row: typeof rateLimitCounter.$inferSelect,
+      tx: Transaction
+    ) => Promise<T>
+  ): Promise<T> {
+    return db.transaction(async (tx) => {
+      await tx
+        .insert(rateLimitCounter)
+        .values({ key, count: 0, expiresAt: new Date(now) })
+        .onConflictDoNothing()
+      const [row] = await tx
+        .select()
+        .from(rateLimitCounter)
+        .where(eq(rateLimitCounter.key, key))
+        .for('update')
+      return fn(row, tx)
+    })
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Counter whose TTL is set when the window starts, or when the key somehow
+// lost it, so a key can never stay forever
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  ttl = tonumber(ARGV[1])
+  redis.call('PEXPIRE', KEYS[1], ttl)
+end
+return { count, ttl }
+`
+
+// Sliding log on a sorted set scored by request time
+const LOG_HIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, tonumber(oldest[2]) or now }
+`
+
+// GCRA: the key holds the theoretical arrival time and expires with it
+const TAKE_TOKEN_SCRIPT = `
+local now = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local tat = math.max(tonumber(redis.call('GET', KEYS[1]) or now), now)
+local allowed = 0
+if tat + interval - now <= tonumber(ARGV[3]) then
+  tat = tat + interval
+  redis.call('SET', KEYS[1], tat, 'PX', tat - now)
+  allowed = 1
+end
+return { allowed, tat }
+`
+
+/**
+ * Rate limit store speaking the Redis protocol (Redis 7+, Valkey, Dragonfly)
+ * Keys expire on the server, so no cleanup is needed
+ */
+export class RedisStore implements RateLimitStore {
+  constructor(private client: RedisClient) {}
+
+  async get(key: string): Promise<number | null> {
+    const value = await this.client.get(key)
+    return value === null ? null : Number(value)
+  }
+
+  async set(key: string, value: number, ttl: number): Promise<void> {
+    await this.client.send('SET', [key, value.toString(), 'PX', ttl.toString()])
+  }
+
+  async increment(key: string, ttl: number): Promise<RateLimitHit> {
+    // A script runs atomically, pipelined commands could leave the key
+    // without a TTL should the connection drop between them
+    const [count, remaining] = (await this.client.send('EVAL', [
+      INCREMENT_SCRIPT,
+      '1',
+      key,
+      ttl.toString(),
+    ])) as [number, number]
+    return { count, ttl: remaining }
+  }
+
+  async logHit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<RateLimitLogHit> {
+    const [allowed, count, oldest] = (await this.client.send('EVAL', [
+      LOG_HIT_SCRIPT,
+      '1',
+      key,
+      now.toString(),
+      windowMs.toString(),
+      limit.toString(),
+      `${now}-${Math.random().toString(36).slice(2)}`,
+    ])) as [number, number, number]
+    return { allowed: allowed === 1, count, oldest }
+  }
+
+  async takeToken(
+    key: string,
+    now: number,
+    interval: number,
+    windowMs: number
+  ): Promise<RateLimitBucketHit> {
+    const [allowed, tat] = (await this.client.send('EVAL', [
+      TAKE_TOKEN_SCRIPT,
+      '1',
+      key,
+      now.toString(),
+      interval.toString(),
+      windowMs.toString(),
+    ])) as [number, number]
+    return { allowed: allowed === 1, tat }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.send('PING', [])
+  }
+}
+
+let redisClient: RedisClient | undefined
+
+const getRedisClient = (url: string) => {
+  if (!redisClient) {
+    const client = new RedisClient(url)
+    onShutdown('redis', () => client.close())
+    redisClient = client
+  }
+  return redisClient
+}
+
+/**
+ * Build the rate limit store selected by `RATE_LIMIT_STORE`
+ * Returns undefined for `memory` so callers fall back to their own MemoryStore
+ */
+export function createStoreFromEnv(env: {
+  RATE_LIMIT_STORE: 'memory' | 'database' | 'redis'
+  REDIS_URL?: string
+}): RateLimitStore | undefined {
+  let store: RateLimitStore
+
+  switch (env.RATE_LIMIT_STORE) {
+    case 'database':
+      store = new PostgresStore()
+      break
+    case 'redis':
+      if (!env.REDIS_URL) {
+        throw new Error('REDIS_URL is required when RATE_LIMIT_STORE=redis')
+      }
+      store = new RedisStore(getRedisClient(env.REDIS_URL))
+      break
+    default:
+      return undefined
+  }
+
+  registerHealthCheck('rateLimitStore', () => store.ping?.())
+  return store
+}
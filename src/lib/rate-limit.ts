@@ -1,10 +1,94 @@
 import type { Context, MiddlewareHandler } from 'hono'
-import { HTTPException } from 'hono/http-exception'
 
-interface RateLimitStore {
+import { getEnv } from '@/env'
+
+import { clientIp } from './client-ip'
+import { RateLimitedError } from './errors'
+import { onShutdown } from './lifecycle'
+import { rateLimitExceededTotal } from './metrics'
+import { withOpenApi } from './openapi'
+import { createStoreFromEnv } from './rate-limit-stores'
+
+export type RateLimitAlgorithm =
+  | 'fixed'
+  | 'sliding-log'
+  | 'sliding-counter'
+  | 'token-bucket'
+
+export interface RateLimitHit {
+  /** Count stored for the key after the increment */
+  count: number
+  /** Milliseconds until the key expires, read in the same operation */
+  ttl: number
+}
+
+export interface RateLimitLogHit {
+  /** Whether the request was recorded (false once the log is full) */
+  allowed: boolean
+  /** Entries left in the log after the operation */
+  count: number
+  /** Timestamp of the oldest entry in the log, in milliseconds */
+  oldest: number
+}
+
+export interface RateLimitBucketHit {
+  /** Whether a token was taken from the bucket */
+  allowed: boolean
+  /** Theoretical arrival time after the operation, the bucket is full again at this time */
+  tat: number
+}
+
+export interface RateLimitStore {
   get: (key: string) => Promise<number | null> | number | null
   set: (key: string, value: number, ttl: number) => Promise<void> | void
-  increment: (key: string) => Promise<number> | number
+  /**
+   * Atomically increment the counter for a key and return the new count
+   * with its remaining ttl
+   * Starts a new window of `ttl` milliseconds when the key is missing or expired
+   */
+  increment: (key: string, ttl: number) => Promise<RateLimitHit> | RateLimitHit
+  /**
+   * Atomically drop log entries older than `windowMs` and record `now` when
+   * fewer than `limit` entries remain (sliding log)
+   */
+  logHit: (
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ) => Promise<RateLimitLogHit> | RateLimitLogHit
+  /**
+   * Atomically take a token by advancing the theoretical arrival time by
+   * `interval`, as long as it stays within `windowMs` of `now` (GCRA)
+   */
+  takeToken: (
+    key: string,
+    now: number,
+    interval: number,
+    windowMs: number
+  ) => Promise<RateLimitBucketHit> | RateLimitBucketHit
+  /**
+   * Remove expired entries, called periodically when implemented
+   */
+  cleanup?: () => Promise<void> | void
+  /**
+   * Check the backend is reachable, used by the readiness probe
+   */
+  ping?: () => Promise<void> | void
+  /**
+   * Remove every entry, see `resetRateLimits()`
+   */
+  reset?: () => Promise<void> | void
+}
+
+interface RateLimitResult {
+  limited: boolean
+  remaining: number
+  /**
+   * When limited, the time the next request will be allowed, otherwise the
+   * time the quota is fully restored (milliseconds since epoch)
+   */
+  resetTime: number
 }
 
 interface RateLimitOptions {
@@ -13,16 +97,39 @@ interface RateLimitOptions {
    * @default 100
    */
   limit?: number
+  /**
+   * Per-request limit taking precedence over `limit` when set, e.g. the
+   * limit of an API key
+   */
+  limitFor?: (c: Context) => number | null | undefined
   /**
    * Time window in milliseconds
    * @default 60000 (1 minute)
    */
   windowMs?: number
+  /**
+   * Algorithm used to count requests
+   * - `fixed`: counter reset at the end of each window, allows bursts of
+   *   up to 2x `limit` across a window boundary
+   * - `sliding-log`: exact, stores one timestamp per request
+   * - `sliding-counter`: weighted average of the current and previous
+   *   window, close to exact with two counters per client
+   * - `token-bucket`: bucket of `limit` tokens refilled evenly over
+   *   `windowMs`, allows short bursts
+   * @default 'fixed'
+   */
+  algorithm?: RateLimitAlgorithm
   /**
    * Custom key generator function to identify clients
-   * @default Uses IP address
+   * @default Uses the client IP resolved by `clientIp()`
    */
   keyGenerator?: (c: Context) => string
+  /**
+   * Prefix identifying the keys of this limiter, reported as the `prefix`
+   * label of the `rate_limit_exceeded_total` metric
+   * @default 'ratelimit'
+   */
+  prefix?: string
   /**
    * Custom message to return when rate limit is exceeded
    */
@@ -36,7 +143,9 @@ interface RateLimitOptions {
    */
   skip?: (c: Context) => boolean | Promise<boolean>
   /**
-   * Custom store for rate limit data (default is in-memory)
+   * Custom store for rate limit data
+   * @default Store selected by `RATE_LIMIT_STORE` (in-memory when unset),
+   * shared by every limiter without one
    */
   store?: RateLimitStore
   /**
@@ -51,8 +160,11 @@ interface RateLimitOptions {
   legacyHeaders?: boolean
 }
 
-class MemoryStore implements RateLimitStore {
-  private store = new Map<string, { count: number; resetTime: number }>()
+export class MemoryStore implements RateLimitStore {
+  private store = new Map<
+    string,
+    { count: number; resetTime: number; hits?: number[] }
+  >()
 
   get(key: string): number | null {
     const data = this.store.get(key)
@@ -71,13 +183,51 @@ class MemoryStore implements RateLimitStore {
     })
   }
 
-  increment(key: string): number {
+  increment(key: string, ttl: number): RateLimitHit {
+    const now = Date.now()
     const data = this.store.get(key)
-    if (!data || Date.now() > data.resetTime) {
-      return 0
+    if (!data || now > data.resetTime) {
+      this.set(key, 1, ttl)
+      return { count: 1, ttl }
     }
     data.count++
-    return data.count
+    return { count: data.count, ttl: data.resetTime - now }
+  }
+
+  logHit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): RateLimitLogHit {
+    const hits = (this.store.get(key)?.hits ?? []).filter(
+      (time) => time > now - windowMs
+    )
+    const allowed = hits.length < limit
+    if (allowed) hits.push(now)
+
+    this.store.set(key, {
+      count: hits.length,
+      // An empty log (limit 0) expires a window from now
+      resetTime: (hits.at(-1) ?? now) + windowMs,
+      hits,
+    })
+    return { allowed, count: hits.length, oldest: hits[0] ?? now }
+  }
+
+  takeToken(
+    key: string,
+    now: number,
+    interval: number,
+    windowMs: number
+  ): RateLimitBucketHit {
+    let tat = Math.max(this.store.get(key)?.resetTime ?? now, now)
+    const allowed = tat + interval - now <= windowMs
+    if (allowed) {
+      tat += interval
+      this.store.set(key, { count: 0, resetTime: tat })
+    }
+    return { allowed, tat }
   }
 
   // Clean up expired entries periodically
@@ -90,14 +240,125 @@ class MemoryStore implements RateLimitStore {
       }
     }
   }
+
+  reset(): void {
+    this.store.clear()
+  }
+}
+
+// Stores used by the limiters created so far, see `resetRateLimits()`
+const stores = new Set<RateLimitStore>()
+
+let defaultStore: RateLimitStore | undefined
+
+/**
+ * Store shared by the limiters without one of their own, selected by
+ * `RATE_LIMIT_STORE` when the first of them is created
+ */
+function getDefaultStore(): RateLimitStore {
+  defaultStore ??= createStoreFromEnv(getEnv()) ?? new MemoryStore()
+  return defaultStore
+}
+
+/**
+ * Start using a store, its cleanup runs once however many limiters share it
+ */
+function useStore(store: RateLimitStore): void {
+  if (stores.has(store)) return
+  stores.add(store)
+
+  // Cleanup expired entries periodically (every 5 minutes)
+  if (store.cleanup) {
+    const timer = setInterval(
+      async () => {
+        try {
+          await store.cleanup?.()
+        } catch {
+          // Ignore cleanup failures, expired entries are retried next run
+        }
+      },
+      5 * 60 * 1000
+    )
+    onShutdown('rateLimit', () => clearInterval(timer))
+  }
+}
+
+/**
+ * Clear the counters of every limiter that supports it (in-memory stores),
+ * so each test starts with a full quota
+ */
+export async function resetRateLimits(): Promise<void> {
+  for (const store of stores) {
+    await store.reset?.()
+  }
 }
 
 const defaultKeyGenerator = (c: Context): string => {
-  const forwarded = c.req.header('x-forwarded-for')
-  const ip = forwarded
-    ? forwarded.split(',')[0].trim()
-    : c.req.header('x-real-ip') || 'unknown'
-  return `ratelimit:${ip}`
+  return `ratelimit:${clientIp(c) ?? 'unknown'}`
+}
+
+/**
+ * Count a request against `key` with the given algorithm
+ */
+async function consume(
+  store: RateLimitStore,
+  algorithm: RateLimitAlgorithm,
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<RateLimitResult> {
+  const now = Date.now()
+
+  switch (algorithm) {
+    case 'sliding-log': {
+      const hit = await store.logHit(key, now, windowMs, limit)
+      return {
+        limited: !hit.allowed,
+        remaining: Math.max(0, limit - hit.count),
+        // The oldest entry leaves the window first and frees a slot
+        resetTime: hit.allowed ? now + windowMs : hit.oldest + windowMs,
+      }
+    }
+
+    case 'sliding-counter': {
+      const window = Math.floor(now / windowMs)
+      const windowEnd = (window + 1) * windowMs
+      // Counters live for two windows so the next one can weigh this one
+      const current = await store.increment(`${key}:${window}`, 2 * windowMs)
+      const previous = (await store.get(`${key}:${window - 1}`)) ?? 0
+      const weight = (windowEnd - now) / windowMs
+      const count = Math.floor(previous * weight) + current.count
+
+      return {
+        limited: count > limit,
+        remaining: Math.max(0, limit - count),
+        resetTime: windowEnd,
+      }
+    }
+
+    case 'token-bucket': {
+      // One token is restored every interval, a full bucket holds `limit`
+      const interval = Math.max(1, Math.round(windowMs / limit))
+      const hit = await store.takeToken(key, now, interval, windowMs)
+      const used = Math.ceil((hit.tat - now) / interval)
+
+      return {
+        limited: !hit.allowed,
+        remaining: Math.max(0, limit - used),
+        // A token is available once the arrival time is back within the window
+        resetTime: hit.allowed ? hit.tat : hit.tat + interval - windowMs,
+      }
+    }
+
+    default: {
+      const hit = await store.increment(key, windowMs)
+      return {
+        limited: hit.count > limit,
+        remaining: Math.max(0, limit - hit.count),
+        resetTime: now + hit.ttl,
+      }
+    }
+  }
 }
 
 /**
@@ -115,6 +376,13 @@ const defaultKeyGenerator = (c: Context): string => {
  *   message: 'Too many requests, please try again later'
  * }))
  *
+ * // Smooth out bursts with a token bucket
+ * app.use('/api/search', rateLimit({
+ *   limit: 10,
+ *   windowMs: 1000,
+ *   algorithm: 'token-bucket',
+ * }))
+ *
  * // Per-route rate limiting
  * app.post('/login', rateLimit({ limit: 5, windowMs: 60000 }), async (c) => {
  *   // Login handler
@@ -123,77 +391,74 @@ const defaultKeyGenerator = (c: Context): string => {
  */
 export function rateLimit(options: RateLimitOptions = {}): MiddlewareHandler {
   const {
-    limit = 100,
+    limit: defaultLimit = 100,
+    limitFor,
     windowMs = 60000, // 1 minute
+    algorithm = 'fixed',
     keyGenerator = defaultKeyGenerator,
+    prefix = 'ratelimit',
     message = 'Too many requests, please try again later.',
     handler,
     skip,
-    store = new MemoryStore(),
+    store = getDefaultStore(),
     standardHeaders = true,
     legacyHeaders = false,
   } = options
 
-  // Cleanup memory store periodically (every 5 minutes)
-  if (store instanceof MemoryStore) {
-    setInterval(() => store.cleanup(), 5 * 60 * 1000)
-  }
+  useStore(store)
 
-  return async (c, next) => {
-    // Skip rate limiting if skip function returns true
-    if (skip && (await skip(c))) {
-      return next()
-    }
+  return withOpenApi(
+    async (c, next) => {
+      // Skip rate limiting if skip function returns true
+      if (skip && (await skip(c))) {
+        return next()
+      }
 
-    const key = keyGenerator(c)
-    const currentCount = (await store.get(key)) || 0
-    const resetTime = Date.now() + windowMs
+      const limit = limitFor?.(c) ?? defaultLimit
 
-    if (currentCount === 0) {
-      await store.set(key, 1, windowMs)
-    } else {
-      await store.increment(key)
-    }
+      // Scope keys by policy so limiters sharing a store keep separate counters
+      const key = `${keyGenerator(c)}:${algorithm}:${limit}:${windowMs}`
+      const { limited, remaining, resetTime } = await consume(
+        store,
+        algorithm,
+        key,
+        limit,
+        windowMs
+      )
 
-    const remaining = Math.max(
-      0,
-      limit - (currentCount === 0 ? 1 : currentCount + 1)
-    )
-    const isLimitExceeded = currentCount >= limit
+      // Set rate limit headers
+      if (standardHeaders) {
+        c.header('RateLimit-Limit', limit.toString())
+        c.header('RateLimit-Remaining', remaining.toString())
+        c.header('RateLimit-Reset', Math.ceil(resetTime / 1000).toString())
+      }
 
-    // Set rate limit headers
-    if (standardHeaders) {
-      c.header('RateLimit-Limit', limit.toString())
-      c.header('RateLimit-Remaining', remaining.toString())
-      c.header('RateLimit-Reset', Math.ceil(resetTime / 1000).toString())
-    }
+      if (legacyHeaders) {
+        c.header('X-RateLimit-Limit', limit.toString())
+        c.header('X-RateLimit-Remaining', remaining.toString())
+        c.header('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString())
+      }
 
-    if (legacyHeaders) {
-      c.header('X-RateLimit-Limit', limit.toString())
-      c.header('X-RateLimit-Remaining', remaining.toString())
-      c.header('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString())
-    }
+      // Handle rate limit exceeded
+      if (limited) {
+        rateLimitExceededTotal.inc({ prefix })
+        const retryAfter = Math.max(
+          1,
+          Math.ceil((resetTime - Date.now()) / 1000)
+        )
+        c.header('Retry-After', retryAfter.toString())
 
-    // Handle rate limit exceeded
-    if (isLimitExceeded) {
-      c.header('Retry-After', Math.ceil(windowMs / 1000).toString())
+        if (handler) {
+          return handler(c)
+        }
 
-      if (handler) {
-        return handler(c)
+        throw new RateLimitedError(message, retryAfter)
       }
 
-      throw new HTTPException(429, {
-        message,
-        cause: {
-          limit,
-          remaining: 0,
-          reset: Math.ceil(resetTime / 1000),
-        },
-      })
-    }
-
-    await next()
-  }
+      await next()
+    },
+    { rateLimit: { limit: defaultLimit, windowMs } }
+  )
 }
 
 /**
@@ -202,56 +467,70 @@ export function rateLimit(options: RateLimitOptions = {}): MiddlewareHandler {
 export const rateLimitPresets = {
   /**
    * Strict rate limit for sensitive endpoints like login
-   * 5 requests per 15 minutes
+   * 5 requests per 15 minutes, exact sliding log so the window can't be
+   * gamed at its boundary
    */
   strict: (): MiddlewareHandler =>
     rateLimit({
       limit: 5,
       windowMs: 15 * 60 * 1000,
+      algorithm: 'sliding-log',
       message: 'Too many attempts, please try again after 15 minutes.',
     }),
 
   /**
    * Moderate rate limit for API endpoints
-   * 50 requests per 15 minutes
+   * 50 requests per 15 minutes, sliding counter
    */
   moderate: (): MiddlewareHandler =>
     rateLimit({
       limit: 50,
       windowMs: 15 * 60 * 1000,
+      algorithm: 'sliding-counter',
     }),
 
   /**
    * Generous rate limit for general endpoints
-   * 100 requests per minute
+   * 100 requests per minute, token bucket to allow short bursts
    */
   generous: (): MiddlewareHandler =>
     rateLimit({
       limit: 100,
       windowMs: 60 * 1000,
+      algorithm: 'token-bucket',
     }),
 
   /**
    * Very generous rate limit for public endpoints
-   * 1000 requests per hour
+   * 1000 requests per hour, sliding counter
    */
   public: (): MiddlewareHandler =>
     rateLimit({
       limit: 1000,
       windowMs: 60 * 60 * 1000,
+      algorithm: 'sliding-counter',
     }),
 }
 
 /**
  * Create a rate limiter that uses user ID instead of IP
+ * Requests made with an API key are counted per key, against the key's own
+ * limit when it has one
+ * Anonymous requests fall back to the client IP
  * Useful for authenticated endpoints
  */
 export function createUserRateLimit(
-  options: Omit<RateLimitOptions, 'keyGenerator'> = {}
+  options: Omit<RateLimitOptions, 'keyGenerator' | 'limitFor'> = {}
 ): MiddlewareHandler {
   return rateLimit({
+    prefix: 'ratelimit:user',
     ...options,
+    limitFor: (c) => c.get('apiKey')?.rateLimit,
     keyGenerator: (c) => {
+      const apiKey = c.get('apiKey')
+      if (apiKey) {
+        return `ratelimit:apikey:${apiKey.id}`
+      }
       const user = c.get('user')
       if (user && typeof user === 'object' && 'id' in user) {
         return `ratelimit:user:${user.id}`
@@ -269,6 +548,7 @@ export function createRouteRateLimit(
   options: RateLimitOptions = {}
 ): MiddlewareHandler {
   return rateLimit({
+    prefix: `ratelimit:${route}`,
     ...options,
     keyGenerator: (c) => {
       const baseKey = options.keyGenerator?.(c) || defaultKeyGenerator(c)
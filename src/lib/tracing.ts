@@ -0,0 +1,366 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomBytes } from 'node:crypto'
+
+import { getEnv } from '@/env'
+
+import { onShutdown } from './lifecycle'
+
+// OTLP span kinds and status codes
+export const SPAN_KIND = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+} as const
+
+export const SPAN_STATUS = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+type AttributeValue = string | number | boolean
+
+export interface TraceContext {
+  traceId: string
+  spanId: string
+  sampled: boolean
+  traceState?: string
+}
+
+interface SpanOptions {
+  /**
+   * Parent context, defaults to the active span
+   */
+  parent?: TraceContext | null
+  kind?: (typeof SPAN_KIND)[keyof typeof SPAN_KIND]
+  attributes?: Record<string, AttributeValue | undefined>
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+const INVALID_TRACE_ID = '0'.repeat(32)
+const INVALID_SPAN_ID = '0'.repeat(16)
+
+const nowNanos = () =>
+  BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6))
+
+/**
+ * Parse a W3C `traceparent` header (version 00)
+ * Returns null when missing or malformed, so a new trace is started
+ */
+export function parseTraceparent(
+  traceparent?: string | null,
+  tracestate?: string | null
+): TraceContext | null {
+  const match = traceparent?.trim().toLowerCase().match(TRACEPARENT_PATTERN)
+  if (!match) return null
+
+  const [, traceId, spanId, flags] = match
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    traceState: tracestate?.trim() || undefined,
+  }
+}
+
+/**
+ * Format a context as a W3C `traceparent` header
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`
+}
+
+export class Span {
+  readonly context: TraceContext
+  readonly parentSpanId?: string
+  private startTime = nowNanos()
+  private endTime?: bigint
+  private attributes: Record<string, AttributeValue> = {}
+  private events: {
+    name: string
+    time: bigint
+    attributes: Record<string, AttributeValue>
+  }[] = []
+  private status: { code: number; message?: string } = {
+    code: SPAN_STATUS.UNSET,
+  }
+
+  constructor(
+    public name: string,
+    readonly kind: number,
+    parent: TraceContext | null,
+    private processor: SpanProcessor
+  ) {
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent?.sampled ?? true,
+      traceState: parent?.traceState,
+    }
+    this.parentSpanId = parent?.spanId
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) this.attributes[key] = value
+    return this
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value)
+    }
+    return this
+  }
+
+  updateName(name: string): this {
+    this.name = name
+    return this
+  }
+
+  setStatus(code: number, message?: string): this {
+    this.status = { code, message }
+    return this
+  }
+
+  recordException(error: Error): this {
+    this.events.push({
+      name: 'exception',
+      time: nowNanos(),
+      attributes: {
+        'exception.type': error.name,
+        'exception.message': error.message,
+        ...(error.stack ? { 'exception.stacktrace': error.stack } : {}),
+      },
+    })
+    return this.setStatus(SPAN_STATUS.ERROR, error.message)
+  }
+
+  end(): void {
+    if (this.endTime !== undefined) return
+    this.endTime = nowNanos()
+    if (this.context.sampled) this.processor.onEnd(this)
+  }
+
+  /**
+   * Serialize as an OTLP/HTTP JSON span
+   */
+  toOtlp() {
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      traceState: this.context.traceState,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowNanos()).toString(),
+      attributes: toOtlpAttributes(this.attributes),
+      events: this.events.map((event) => ({
+        name: event.name,
+        timeUnixNano: event.time.toString(),
+        attributes: toOtlpAttributes(event.attributes),
+      })),
+      status: this.status,
+    }
+  }
+}
+
+const toOtlpAttributes = (attributes: Record<string, AttributeValue>) =>
+  Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: value }
+            : { doubleValue: value },
+  }))
+
+export interface SpanProcessor {
+  onEnd: (span: Span) => void
+  flush?: () => Promise<void>
+}
+
+interface OtlpExporterOptions {
+  /**
+   * Collector base URL, spans are posted to `${endpoint}/v1/traces`
+   */
+  endpoint: string
+  serviceName: string
+  /**
+   * Export once this many spans are buffered
+   * @default 512
+   */
+  maxBatchSize?: number
+  /**
+   * Export buffered spans at least this often
+   * @default 5000
+   */
+  flushIntervalMs?: number
+}
+
+/**
+ * Batch finished spans and post them to an OTLP/HTTP collector as JSON
+ */
+export class OtlpHttpExporter implements SpanProcessor {
+  private buffer: Span[] = []
+  private timer: ReturnType<typeof setInterval>
+  private url: string
+  private maxBatchSize: number
+
+  constructor(private options: OtlpExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/$/, '')}/v1/traces`
+    this.maxBatchSize = options.maxBatchSize ?? 512
+    this.timer = setInterval(
+      () => void this.flush(),
+      options.flushIntervalMs ?? 5000
+    )
+    // Don't keep the process alive just to export
+    this.timer.unref?.()
+  }
+
+  onEnd(span: Span): void {
+    this.buffer.push(span)
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush()
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return
+    const spans = this.buffer.splice(0)
+
+    try {
+      await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resourceSpans: [
+            {
+              resource: {
+                attributes: toOtlpAttributes({
+                  'service.name': this.options.serviceName,
+                }),
+              },
+              scopeSpans: [
+                {
+                  scope: { name: 'honotreez' },
+                  spans: spans.map((span) => span.toOtlp()),
+                },
+              ],
+            },
+          ],
+        }),
+      })
+    } catch {
+      // Tracing must never break requests, drop the batch
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer)
+    await this.flush()
+  }
+}
+
+const noopProcessor: SpanProcessor = { onEnd: () => {} }
+
+const activeSpan = new AsyncLocalStorage<Span>()
+
+let processor: SpanProcessor | undefined
+
+const getProcessor = (): SpanProcessor => {
+  if (!processor) {
+    const env = getEnv()
+    if (env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+      const exporter = new OtlpHttpExporter({
+        endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+        serviceName: env.OTEL_SERVICE_NAME,
+      })
+      // Export what is still buffered before the process exits
+      onShutdown('tracing', () => exporter.shutdown())
+      processor = exporter
+    } else {
+      processor = noopProcessor
+    }
+  }
+  return processor
+}
+
+/**
+ * Replace the span processor, e.g. to point at a collector stub in tests
+ */
+export function setSpanProcessor(next: SpanProcessor): void {
+  processor = next
+}
+
+/**
+ * Flush buffered spans, call before the process exits
+ */
+export async function flushSpans(): Promise<void> {
+  await getProcessor().flush?.()
+}
+
+/**
+ * Context of the span active in the current async scope, if any
+ */
+export function getActiveContext(): TraceContext | null {
+  return activeSpan.getStore()?.context ?? null
+}
+
+/**
+ * Start a span without activating it, remember to call `end()`
+ */
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+  const parent =
+    options.parent === undefined ? getActiveContext() : options.parent
+  const span = new Span(
+    name,
+    options.kind ?? SPAN_KIND.INTERNAL,
+    parent,
+    getProcessor()
+  )
+  if (options.attributes) span.setAttributes(options.attributes)
+  return span
+}
+
+/**
+ * Run `fn` with `span` as the active span, without ending it
+ */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return activeSpan.run(span, fn)
+}
+
+/**
+ * Run `fn` inside a new active span, ending it when `fn` settles
+ * Errors are recorded on the span and rethrown
+ *
+ * @example
+ * ```ts
+ * const session = await withSpan('auth.getSession', () =>
+ *   auth.api.getSession({ headers })
+ * )
+ * ```
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T> | T,
+  options: SpanOptions = {}
+): Promise<T> {
+  const span = startSpan(name, options)
+  try {
+    // Awaited within the span, lazy thenables such as Drizzle queries only
+    // start once awaited
+    return await runInSpan(span, async () => await fn(span))
+  } catch (err) {
+    span.recordException(err instanceof Error ? err : new Error(String(err)))
+    throw err
+  } finally {
+    span.end()
+  }
+}
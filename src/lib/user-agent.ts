@@ -0,0 +1,55 @@
+export interface DeviceInfo {
+  browser: string | null
+  os: string | null
+  type: 'desktop' | 'mobile' | 'tablet' | 'bot' | null
+}
+
+// First match wins, so browsers built on Chromium or WebKit come before
+// the engines they also name
+const BROWSERS: [RegExp, string][] = [
+  [/\bEdg(?:e|A|iOS)?\//, 'Edge'],
+  [/\b(?:OPR|Opera)\//, 'Opera'],
+  [/\bSamsungBrowser\//, 'Samsung Internet'],
+  [/\b(?:Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(?:Chrome|CriOS)\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*\bSafari\//, 'Safari'],
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/\bWindows\b/, 'Windows'],
+  [/\b(?:iPhone|iPod)\b/, 'iOS'],
+  [/\biPad\b/, 'iPadOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bMac OS X\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux'],
+]
+
+const BOT = /bot|crawler|spider|curl|wget|python-requests|postman/i
+
+/**
+ * Browser, operating system and kind of device from a `User-Agent` header,
+ * for showing sessions to people rather than for feature detection
+ */
+export function parseUserAgent(
+  userAgent: string | null | undefined
+): DeviceInfo {
+  if (!userAgent) return { browser: null, os: null, type: null }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+  let type: DeviceInfo['type'] = 'desktop'
+  if (BOT.test(userAgent)) {
+    type = 'bot'
+  } else if (
+    /\biPad\b|\bTablet\b/.test(userAgent) ||
+    (os === 'Android' && !/\bMobile\b/.test(userAgent))
+  ) {
+    type = 'tablet'
+  } else if (/\bMobile\b|\biPhone\b|\biPod\b/.test(userAgent)) {
+    type = 'mobile'
+  }
+
+  return { browser: browser ?? null, os: os ?? null, type }
+}
@@ -0,0 +1,65 @@
+/**
+ * User a source exports or anonymises the data of
+ */
+export interface UserDataSubject {
+  id: string
+  email: string
+}
+
+export interface UserDataSource {
+  /**
+   * Everything the source holds about the user, as JSON
+   * Leave secrets out: password hashes, tokens, key hashes
+   */
+  export: (user: UserDataSubject) => Promise<unknown>
+  /**
+   * Delete what isn't needed once the account is deleted and strip personal
+   * details from records that are kept, such as the audit log
+   * Called again should the deletion fail part way, so it must be safe to
+   * repeat
+   */
+  anonymize?: (user: UserDataSubject) => Promise<void>
+}
+
+const sources = new Map<string, UserDataSource>()
+
+/**
+ * Register data tied to users, included in their export under `name` and
+ * anonymised when their account is deleted, replacing any source with the
+ * same name
+ *
+ * @example
+ * registerUserData('invoices', {
+ *   export: (user) => db.select().from(invoice).where(eq(invoice.userId, user.id)),
+ *   anonymize: async (user) => {
+ *     await db.update(invoice).set({ address: null }).where(eq(invoice.userId, user.id))
+ *   },
+ * })
+ */
+export function registerUserData(name: string, source: UserDataSource): void {
+  sources.set(name, source)
+}
+
+/**
+ * Data of every registered source, keyed by source name
+ */
+export async function exportUserData(
+  user: UserDataSubject
+): Promise<Record<string, unknown>> {
+  const entries = await Promise.all(
+    Array.from(
+      sources,
+      async ([name, source]) => [name, await source.export(user)] as const
+    )
+  )
+  return Object.fromEntries(entries)
+}
+
+/**
+ * Run the anonymisation of every registered source, in registration order
+ */
+export async function anonymizeUserData(user: UserDataSubject): Promise<void> {
+  for (const source of sources.values()) {
+    await source.anonymize?.(user)
+  }
+}
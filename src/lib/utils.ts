@@ -1,3 +1,10 @@
 import { nanoid } from 'nanoid'
 
 export const generateId = (size = 32) => nanoid(size)
+
+/**
+ * Header carrying the request ID, sent back on every response and passed to
+ * Better Auth for the entries its hooks record
+ * Always overwritten by the server, never trusted from the client
+ */
+export const REQUEST_ID_HEADER = 'X-Request-ID'
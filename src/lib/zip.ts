@@ -0,0 +1,96 @@
+export interface ZipEntry {
+  /**
+   * Path within the archive, `/`-separated
+   */
+  name: string
+  data: string | Uint8Array<ArrayBuffer>
+  /**
+   * @default now
+   */
+  modifiedAt?: Date
+}
+
+// Bit 11 of the flags: names are UTF-8
+const UTF8_FLAG = 0x0800
+
+const DEFLATE = 8
+
+/**
+ * Time and date fields in MS-DOS format, local time as unzip tools expect
+ */
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+})
+
+/**
+ * Deflate-compressed ZIP archive of the entries, built in memory
+ * Meant for small archives such as data exports, ZIP64 isn't supported
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data =
+      typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const compressed = Bun.deflateSync(data)
+    const crc = Bun.hash.crc32(data)
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, DEFLATE, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, compressed.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true) // version made by
+    header.setUint16(6, 20, true) // version needed
+    header.setUint16(8, UTF8_FLAG, true)
+    header.setUint16(10, DEFLATE, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, compressed.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, compressed)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + compressed.length
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const archive = new Uint8Array(offset + centralSize + 22)
+  let position = 0
+  for (const part of [...parts, ...central, new Uint8Array(end.buffer)]) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}
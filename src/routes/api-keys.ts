@@ -0,0 +1,114 @@
+import { z } from 'zod'
+
+import { audit } from '@/lib/audit'
+import { createRouter } from '@/lib/create-app'
+import { describeRoute } from '@/lib/openapi'
+import { validate } from '@/lib/validate'
+
+import { createApiKey, listApiKeys, revokeApiKey } from '@/auth/api-keys'
+import { sessionGuard } from '@/auth/auth-guard'
+import { PermissionsSchema } from '@/auth/permissions'
+
+const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string().describe('Start of the key, to tell keys apart'),
+  organizationId: z.string().nullable(),
+  scopes: z.record(z.string(), z.array(z.string())),
+  rateLimit: z.number().nullable(),
+  expiresAt: z.iso.datetime().nullable(),
+  lastUsedAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+})
+
+// Keys can't mint or revoke keys, a leaked one could otherwise outlive
+// its revocation
+const apiKeys = createRouter()
+  .use(sessionGuard())
+  .get(
+    '/',
+    describeRoute({
+      summary: 'List your API keys',
+      description: 'Newest first, keys themselves are only shown on creation',
+      tags: ['API Keys'],
+      responses: {
+        200: { description: 'Your API keys', schema: z.array(ApiKeySchema) },
+      },
+    }),
+    async (c) => c.json(await listApiKeys(c.get('user')!.id))
+  )
+  .post(
+    '/',
+    describeRoute({
+      summary: 'Create an API key',
+      description:
+        'Send it as `X-API-Key` or `Authorization: Bearer`. Scopes must be within your own permissions',
+      tags: ['API Keys'],
+      responses: {
+        201: {
+          description: 'Key created, `key` is not shown again',
+          schema: ApiKeySchema.extend({ key: z.string() }),
+        },
+      },
+    }),
+    validate({
+      body: z.object({
+        name: z.string().min(1).max(100),
+        scopes: PermissionsSchema,
+        organizationId: z
+          .uuid()
+          .nullish()
+          .describe('Organization the key acts within, you must be a member'),
+        rateLimit: z
+          .int()
+          .positive()
+          .nullish()
+          .describe('Requests per window on routes limited per user'),
+        expiresAt: z.iso
+          .datetime({ offset: true })
+          .transform((value) => new Date(value))
+          .refine((date) => date > new Date(), 'Must be in the future')
+          .nullish(),
+      }),
+    }),
+    async (c) => {
+      const { key, ...created } = await createApiKey(
+        c.get('user')!.id,
+        c.req.valid('json')
+      )
+      await audit(c, {
+        action: 'api_key.created',
+        target: { type: 'api_key', id: created.id },
+        after: {
+          name: created.name,
+          organizationId: created.organizationId,
+          scopes: created.scopes,
+          expiresAt: created.expiresAt,
+        },
+      })
+      return c.json({ ...created, key }, 201)
+    }
+  )
+  .delete(
+    '/:id',
+    describeRoute({
+      summary: 'Revoke an API key',
+      tags: ['API Keys'],
+      responses: {
+        204: { description: 'Key revoked' },
+        404: { description: 'No key of yours with this ID' },
+      },
+    }),
+    validate({ params: z.object({ id: z.uuid() }) }),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      await revokeApiKey(c.get('user')!.id, id)
+      await audit(c, {
+        action: 'api_key.revoked',
+        target: { type: 'api_key', id },
+      })
+      return c.body(null, 204)
+    }
+  )
+
+export default apiKeys
@@ -0,0 +1,111 @@
+import { z } from 'zod'
+
+import { auditLogToCsv, queryAuditLog } from '@/lib/audit'
+import { createRouter } from '@/lib/create-app'
+import { describeRoute } from '@/lib/openapi'
+import { validate } from '@/lib/validate'
+
+import { adminGuard } from '@/auth/auth-guard'
+
+// Rows in one CSV export, narrow the filters for more
+const EXPORT_LIMIT = 10_000
+
+const AuditEntrySchema = z.object({
+  id: z.string(),
+  actorId: z.string().nullable(),
+  impersonatorId: z
+    .string()
+    .nullable()
+    .describe('Admin acting through an impersonation session'),
+  action: z.string(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  changes: z
+    .record(z.string(), z.object({ before: z.unknown(), after: z.unknown() }))
+    .nullable()
+    .describe('Fields the action changed'),
+  metadata: z.record(z.string(), z.unknown()).nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  requestId: z.string().nullable(),
+  createdAt: z.iso.datetime(),
+})
+
+const AuditFiltersSchema = z.object({
+  actorId: z.uuid().optional(),
+  action: z
+    .string()
+    .max(100)
+    .optional()
+    .describe('Exact action, or a prefix ending with `*` such as `user.*`'),
+  targetType: z.string().max(50).optional(),
+  targetId: z.string().max(100).optional(),
+  from: z.iso
+    .datetime({ offset: true })
+    .transform((value) => new Date(value))
+    .optional(),
+  to: z.iso
+    .datetime({ offset: true })
+    .transform((value) => new Date(value))
+    .optional(),
+})
+
+const auditLog = createRouter()
+  .use(adminGuard())
+  .get(
+    '/',
+    describeRoute({
+      summary: 'Query the audit log',
+      description:
+        'Newest first. Pass `nextCursor` as `cursor` for the next page, it is null on the last one',
+      tags: ['Audit Log'],
+      responses: {
+        200: {
+          description: 'Matching entries',
+          schema: z.object({
+            entries: z.array(AuditEntrySchema),
+            nextCursor: z.string().nullable(),
+          }),
+        },
+      },
+    }),
+    validate({
+      query: AuditFiltersSchema.extend({
+        cursor: z.uuid().optional(),
+        limit: z.coerce.number().int().min(1).max(500).default(50),
+      }),
+    }),
+    async (c) => {
+      const filters = c.req.valid('query')
+      const entries = await queryAuditLog(filters)
+      return c.json({
+        entries,
+        nextCursor:
+          entries.length === filters.limit ? entries.at(-1)!.id : null,
+      })
+    }
+  )
+  .get(
+    '/export',
+    describeRoute({
+      summary: 'Export the audit log as CSV',
+      description: `Entries matching the filters, newest first, at most ${EXPORT_LIMIT}`,
+      tags: ['Audit Log'],
+      responses: {
+        200: { description: 'CSV with a header row' },
+      },
+    }),
+    validate({ query: AuditFiltersSchema }),
+    async (c) => {
+      const entries = await queryAuditLog({
+        ...c.req.valid('query'),
+        limit: EXPORT_LIMIT,
+      })
+      return c.body(auditLogToCsv(entries), 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="audit-log.csv"',
+      })
+    }
+  )
+
+export default auditLog
@@ -1,10 +1,68 @@
+import type { Context } from 'hono'
+import { createMiddleware } from 'hono/factory'
+
 import { auth } from '@/lib/auth'
+import { CLIENT_IP_HEADER, clientIp } from '@/lib/client-ip'
 import { createRouter } from '@/lib/create-app'
+import { createRouteRateLimit } from '@/lib/rate-limit'
+import { REQUEST_ID_HEADER } from '@/lib/utils'
 
-const authRouter = createRouter()
+const SIGN_IN_WINDOW_MS = 15 * 60 * 1000
+
+// Email each sign-in is for, read from a copy of the body Better Auth reads
+const signInEmails = new WeakMap<Context, string>()
 
-authRouter.on(['POST', 'GET'], '/auth/**', async (c) => {
-  return auth.handler(c.req.raw)
+const readSignInEmail = createMiddleware(async (c, next) => {
+  const body = (await c.req.raw
+    .clone()
+    .json()
+    .catch(() => null)) as { email?: unknown } | null
+  if (typeof body?.email === 'string') {
+    signInEmails.set(c, body.email.trim().toLowerCase())
+  }
+  await next()
 })
 
+const authRouter = createRouter()
+  // Per IP against single sources, per email against botnets spreading
+  // guesses over many IPs, lockout in src/auth/account-lockout.ts
+  .use(
+    '/auth/sign-in/email',
+    createRouteRateLimit('sign-in', {
+      limit: 30,
+      windowMs: SIGN_IN_WINDOW_MS,
+      algorithm: 'sliding-counter',
+      message: 'Too many sign-in attempts, please try again later.',
+    }),
+    readSignInEmail,
+    createRouteRateLimit('sign-in:email', {
+      limit: 10,
+      windowMs: SIGN_IN_WINDOW_MS,
+      algorithm: 'sliding-log',
+      keyGenerator: (c) => `ratelimit:email:${signInEmails.get(c)}`,
+      skip: (c) => !signInEmails.has(c),
+      message:
+        'Too many sign-in attempts for this account, please try again later.',
+    })
+  )
+  .on(['POST', 'GET'], '/auth/*', async (c) => {
+    // Hand the resolved client IP to Better Auth, replacing any spoofed value
+    const request = new Request(c.req.raw)
+    const ip = clientIp(c)
+    if (ip) {
+      request.headers.set(CLIENT_IP_HEADER, ip)
+    } else {
+      request.headers.delete(CLIENT_IP_HEADER)
+    }
+    // Ties audit log entries recorded by Better Auth hooks to the request
+    const requestId = c.get('requestId')
+    if (requestId) {
+      request.headers.set(REQUEST_ID_HEADER, requestId)
+    } else {
+      request.headers.delete(REQUEST_ID_HEADER)
+    }
+
+    return auth.handler(request)
+  })
+
 export default authRouter
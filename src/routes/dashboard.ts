@@ -1,11 +1,24 @@
-import { createRouter } from '@/lib/create-app'
+import { z } from 'zod'
 
-const dashboard = createRouter()
+import { createRouter } from '@/lib/create-app'
+import { describeRoute } from '@/lib/openapi'
 
-dashboard.get('/', (c) =>
-  c.json({
-    message: 'OK',
-  })
+const dashboard = createRouter().get(
+  '/',
+  describeRoute({
+    summary: 'Dashboard status',
+    tags: ['Dashboard'],
+    responses: {
+      200: {
+        description: 'Dashboard is available',
+        schema: z.object({ message: z.string() }),
+      },
+    },
+  }),
+  (c) =>
+    c.json({
+      message: 'OK',
+    })
 )
 
 export default dashboard
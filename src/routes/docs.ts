@@ -0,0 +1,115 @@
+import { html } from 'hono/html'
+import type { RouterRoute } from 'hono/types'
+
+import { auth } from '@/lib/auth'
+import { createRouter } from '@/lib/create-app'
+import {
+  describeRoute,
+  generateOpenApiDocument,
+  type OpenApiDocument,
+} from '@/lib/openapi'
+
+import { getEnv } from '@/env'
+
+// Better Auth's default base path, where src/routes/auth.ts mounts it
+const AUTH_BASE_PATH = '/api/auth'
+
+// Docs UI, pinned so the CDN can only serve the file hashed here
+// When upgrading, hash the same file of the npm package:
+// openssl dgst -sha384 -binary dist/browser/standalone.js | openssl base64 -A
+const SCALAR_URL =
+  'https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js'
+const SCALAR_INTEGRITY =
+  'sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK'
+
+/**
+ * Better Auth endpoints, prefixed with the auth base path
+ * Security is left out: most of them (sign-in, sign-up) are public and the
+ * rest accept the session cookie
+ */
+const authDocument = async () => {
+  const spec = await auth.api.generateOpenAPISchema()
+
+  const paths = Object.fromEntries(
+    Object.entries(spec.paths).map(([path, operations]) => [
+      `${AUTH_BASE_PATH}${path}`,
+      Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => {
+          const { security: _, ...rest } = operation as Record<string, unknown>
+          const tags = (rest.tags ?? []) as string[]
+          return [
+            method,
+            {
+              ...rest,
+              tags: tags.map((tag) => (tag === 'Default' ? 'Auth' : tag)),
+            },
+          ]
+        })
+      ),
+    ])
+  )
+
+  return {
+    paths,
+    components: { schemas: spec.components.schemas },
+    tags: [{ name: 'Auth', description: 'Better Auth endpoints' }],
+  } as Pick<OpenApiDocument, 'paths' | 'components' | 'tags'>
+}
+
+/**
+ * Serve the OpenAPI document of `app` and a docs UI
+ * Nothing is registered when `API_DOCS_ENABLED` is false, which is the
+ * default in production
+ */
+export function createDocsRouter(app: { routes: RouterRoute[] }) {
+  const docs = createRouter()
+  const env = getEnv()
+
+  if (!(env.API_DOCS_ENABLED ?? env.NODE_ENV !== 'production')) {
+    return docs
+  }
+
+  // Routes don't change at runtime, build the document once
+  let document: Promise<OpenApiDocument> | undefined
+
+  docs.get('/openapi.json', describeRoute({ hide: true }), async (c) => {
+    if (!document) {
+      const built = authDocument().then((merge) =>
+        generateOpenApiDocument(app, {
+          title: 'honotreez API',
+          version: '1.0.0',
+          merge,
+        })
+      )
+      document = built
+      // Retry on the next request rather than serving the failure for good
+      built.catch(() => {
+        if (document === built) document = undefined
+      })
+    }
+    return c.json(await document)
+  })
+
+  docs.get('/docs', describeRoute({ hide: true }), (c) =>
+    c.html(html`
+      <!doctype html>
+      <html lang="en">
+        <head>
+          <title>honotreez API</title>
+          <meta charset="utf-8" />
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+        </head>
+        <body>
+          <script id="api-reference" data-url="/api/openapi.json"></script>
+          <script
+            src="${SCALAR_URL}"
+            integrity="${SCALAR_INTEGRITY}"
+            crossorigin="anonymous"
+          ></script>
+        </body>
+      </html>
+    `)
+  )
+
+  return docs
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+
+import { createRouter } from '@/lib/create-app'
+import { checkReadiness } from '@/lib/health'
+import { logger } from '@/lib/logger'
+import { describeRoute } from '@/lib/openapi'
+
+import { getEnv } from '@/env'
+
+const ReadinessSchema = z.object({
+  status: z.enum(['ok', 'error', 'shutting_down']),
+  checks: z.record(
+    z.string(),
+    z.object({
+      status: z.enum(['ok', 'error']),
+      latencyMs: z.number(),
+      error: z.string().optional(),
+    })
+  ),
+})
+
+const health = createRouter()
+  // Liveness: the process is up and serving requests
+  .get(
+    '/live',
+    describeRoute({
+      summary: 'Liveness probe',
+      tags: ['Health'],
+      responses: {
+        200: {
+          description: 'The process is serving requests',
+          schema: z.object({ status: z.literal('ok') }),
+        },
+      },
+    }),
+    (c) =>
+      c.json({
+        status: 'ok',
+      })
+  )
+  // Readiness: every registered dependency check passes
+  .get(
+    '/ready',
+    describeRoute({
+      summary: 'Readiness probe',
+      tags: ['Health'],
+      responses: {
+        200: { description: 'Every check passed', schema: ReadinessSchema },
+        503: {
+          description: 'A check failed or the server is shutting down',
+          schema: ReadinessSchema,
+        },
+      },
+    }),
+    async (c) => {
+      const report = await checkReadiness()
+      // The probe is public, failures are detailed in the logs only
+      const detailed = getEnv().NODE_ENV === 'development'
+      for (const [name, check] of Object.entries(report.checks)) {
+        if (!check.error) continue
+        logger.write('warn', 'Readiness check failed', {
+          check: name,
+          error: check.error,
+        })
+        if (!detailed) delete check.error
+      }
+      return c.json(report, report.status === 'ok' ? 200 : 503)
+    }
+  )
+
+export default health
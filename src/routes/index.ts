@@ -1,14 +1,22 @@
 import { createRouter } from '@/lib/create-app'
 
+import apiKeys from './api-keys'
+import auditLog from './audit-log'
 import dashboard from './dashboard'
+import health from './health'
+import me from './me'
+import metrics from './metrics'
+import roles from './roles'
+import users from './users'
 
 const appRouter = createRouter()
-
-appRouter.get('/healthcheck', (c) =>
-  c.json({
-    message: 'OK',
-  })
-)
-appRouter.route('/dashboard', dashboard)
+  .route('/health', health)
+  .route('/dashboard', dashboard)
+  .route('/metrics', metrics)
+  .route('/roles', roles)
+  .route('/users', users)
+  .route('/api-keys', apiKeys)
+  .route('/audit-log', auditLog)
+  .route('/me', me)
 
 export default appRouter
@@ -0,0 +1,202 @@
+import { z } from 'zod'
+
+import { audit } from '@/lib/audit'
+import { createRouter } from '@/lib/create-app'
+import { NotFoundError } from '@/lib/errors'
+import { describeRoute } from '@/lib/openapi'
+import { exportUserData } from '@/lib/user-data'
+import { validate } from '@/lib/validate'
+import { createZip } from '@/lib/zip'
+
+import {
+  cancelAccountDeletion,
+  requestAccountDeletion,
+} from '@/auth/account-deletion'
+import { sessionGuard } from '@/auth/auth-guard'
+import { listSessions, revokeSession, revokeSessions } from '@/auth/sessions'
+
+export const SessionSchema = z.object({
+  id: z.string(),
+  current: z.boolean().describe('The session making the request'),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  device: z.object({
+    browser: z.string().nullable(),
+    os: z.string().nullable(),
+    type: z.enum(['desktop', 'mobile', 'tablet', 'bot']).nullable(),
+  }),
+  impersonatedBy: z
+    .string()
+    .nullable()
+    .describe('Admin who started the session to impersonate the user'),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  expiresAt: z.iso.datetime(),
+})
+
+const me = createRouter()
+  .use(sessionGuard())
+  .get(
+    '/sessions',
+    describeRoute({
+      summary: 'List your sessions',
+      description: 'Signed-in devices, most recently active first',
+      tags: ['Sessions'],
+      responses: {
+        200: { description: 'Your sessions', schema: z.array(SessionSchema) },
+      },
+    }),
+    async (c) =>
+      c.json(await listSessions(c.get('user')!.id, c.get('session')!.id))
+  )
+  .delete(
+    '/sessions',
+    describeRoute({
+      summary: 'Sign out everywhere else',
+      description: 'Revokes every session except the current one',
+      tags: ['Sessions'],
+      responses: {
+        200: {
+          description: 'Sessions revoked',
+          schema: z.object({ revoked: z.array(z.string()) }),
+        },
+      },
+    }),
+    async (c) => {
+      const userId = c.get('user')!.id
+      const revoked = await revokeSessions(userId, c.get('session')!.id)
+      await audit(c, {
+        action: 'user.sessions_revoked',
+        target: { type: 'user', id: userId },
+        metadata: { sessionIds: revoked },
+      })
+      return c.json({ revoked })
+    }
+  )
+  .delete(
+    '/sessions/:id',
+    describeRoute({
+      summary: 'Revoke one of your sessions',
+      description:
+        'Stops working within seconds, revoking the current session signs you out',
+      tags: ['Sessions'],
+      responses: {
+        204: { description: 'Session revoked' },
+        404: { description: 'No session of yours with this ID' },
+      },
+    }),
+    validate({ params: z.object({ id: z.uuid() }) }),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      await revokeSession(c.get('user')!.id, id)
+      await audit(c, {
+        action: 'session.revoked',
+        target: { type: 'session', id },
+      })
+      return c.body(null, 204)
+    }
+  )
+  .get(
+    '/export',
+    describeRoute({
+      summary: 'Export your data',
+      description:
+        'Everything stored about you, keyed by source: profile, sign-in methods, sessions, audit entries and the data of other modules. `zip` holds one JSON file per source',
+      tags: ['Account'],
+      responses: {
+        200: { description: 'JSON or ZIP download' },
+      },
+    }),
+    validate({
+      query: z.object({ format: z.enum(['json', 'zip']).default('json') }),
+    }),
+    async (c) => {
+      const { id, email } = c.get('user')!
+      const exportedAt = new Date()
+      const data = await exportUserData({ id, email })
+      await audit(c, {
+        action: 'user.data_exported',
+        target: { type: 'user', id },
+      })
+
+      const filename = `user-data-${exportedAt.toISOString().slice(0, 10)}`
+      if (c.req.valid('query').format === 'zip') {
+        const zip = createZip(
+          Object.entries(data).map(([name, value]) => ({
+            name: `${name}.json`,
+            data: JSON.stringify(value, null, 2),
+            modifiedAt: exportedAt,
+          }))
+        )
+        return c.body(zip, 200, {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}.zip"`,
+        })
+      }
+      return c.json({ exportedAt, data }, 200, {
+        'Content-Disposition': `attachment; filename="${filename}.json"`,
+      })
+    }
+  )
+  .post(
+    '/deletion',
+    describeRoute({
+      summary: 'Delete your account',
+      description:
+        'Your account is deleted once the grace period ends, until then you can cancel. Asking again keeps the first date',
+      tags: ['Account'],
+      responses: {
+        200: {
+          description: 'Deletion scheduled',
+          schema: z.object({ deleteAt: z.iso.datetime() }),
+        },
+        422: { description: 'Wrong or missing password' },
+      },
+    }),
+    validate({
+      body: z.object({
+        password: z
+          .string()
+          .optional()
+          .describe('Required when your account has a password'),
+      }),
+    }),
+    async (c) => {
+      const user = c.get('user')!
+      const deleteAt = await requestAccountDeletion(
+        user,
+        c.req.valid('json').password
+      )
+      await audit(c, {
+        action: 'user.deletion_requested',
+        target: { type: 'user', id: user.id },
+        metadata: { deleteAt },
+      })
+      return c.json({ deleteAt })
+    }
+  )
+  .delete(
+    '/deletion',
+    describeRoute({
+      summary: 'Keep your account',
+      description: 'Cancels a requested deletion',
+      tags: ['Account'],
+      responses: {
+        204: { description: 'Deletion cancelled' },
+        404: { description: 'No deletion was requested' },
+      },
+    }),
+    async (c) => {
+      const userId = c.get('user')!.id
+      if (!(await cancelAccountDeletion(userId))) {
+        throw new NotFoundError('No deletion was requested')
+      }
+      await audit(c, {
+        action: 'user.deletion_cancelled',
+        target: { type: 'user', id: userId },
+      })
+      return c.body(null, 204)
+    }
+  )
+
+export default me
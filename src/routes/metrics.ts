@@ -0,0 +1,51 @@
+import { timingSafeEqual } from 'node:crypto'
+
+import { createMiddleware } from 'hono/factory'
+
+import { createRouter } from '@/lib/create-app'
+import { METRICS_CONTENT_TYPE, registry } from '@/lib/metrics'
+import { describeRoute, withOpenApi } from '@/lib/openapi'
+
+import { adminGuard } from '@/auth/auth-guard'
+import { getEnv } from '@/env'
+
+const isMetricsToken = (header: string | undefined, token: string) => {
+  const provided = Buffer.from(header?.replace(/^Bearer\s+/i, '') ?? '')
+  const expected = Buffer.from(token)
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  )
+}
+
+/**
+ * Allow scrapers presenting `METRICS_TOKEN` as a bearer token, otherwise
+ * require an admin session
+ */
+const metricsGuard = () => {
+  const admin = adminGuard()
+
+  return withOpenApi(
+    createMiddleware(async (c, next) => {
+      const token = getEnv(c).METRICS_TOKEN
+      if (token && isMetricsToken(c.req.header('authorization'), token)) {
+        return next()
+      }
+      return admin(c, next)
+    }),
+    { auth: { schemes: ['cookieAuth', 'metricsToken'], roles: ['admin'] } }
+  )
+}
+
+const metrics = createRouter().get(
+  '/',
+  describeRoute({
+    summary: 'Prometheus metrics',
+    tags: ['Observability'],
+    responses: { 200: { description: 'Prometheus text exposition format' } },
+  }),
+  metricsGuard(),
+  (c) =>
+    c.body(registry.render(), 200, { 'Content-Type': METRICS_CONTENT_TYPE })
+)
+
+export default metrics
@@ -0,0 +1,156 @@
+import { z } from 'zod'
+
+import { audit } from '@/lib/audit'
+import { createRouter } from '@/lib/create-app'
+import { describeRoute } from '@/lib/openapi'
+import { validate } from '@/lib/validate'
+
+import { adminGuard } from '@/auth/auth-guard'
+import { PermissionsSchema } from '@/auth/permissions'
+import {
+  createRole,
+  deleteRole,
+  getRole,
+  listRoles,
+  updateRole,
+} from '@/auth/roles'
+
+// Stored comma-separated in `user.role`, so no commas or spaces
+export const RoleNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]*$/, 'Use lowercase letters, digits, - and _')
+  .max(50)
+
+const RoleSchema = z.object({
+  name: z.string(),
+  description: z.string().nullable(),
+  builtIn: z.boolean(),
+  permissions: z.record(z.string(), z.array(z.string())),
+})
+
+const RoleParamsSchema = z.object({ name: z.string() })
+
+const roles = createRouter()
+  .use(adminGuard())
+  .get(
+    '/',
+    describeRoute({
+      summary: 'List roles',
+      description: 'Built-in roles first, then roles created through the API',
+      tags: ['Roles'],
+      responses: {
+        200: { description: 'All roles', schema: z.array(RoleSchema) },
+      },
+    }),
+    async (c) => c.json(await listRoles())
+  )
+  .post(
+    '/',
+    describeRoute({
+      summary: 'Create a role',
+      tags: ['Roles'],
+      responses: {
+        201: { description: 'Role created', schema: RoleSchema },
+        409: { description: 'A role with this name exists' },
+      },
+    }),
+    validate({
+      body: z.object({
+        name: RoleNameSchema,
+        description: z.string().max(500).nullish(),
+        permissions: PermissionsSchema,
+      }),
+    }),
+    async (c) => {
+      const created = await createRole(c.req.valid('json'))
+      await audit(c, {
+        action: 'role.created',
+        target: { type: 'role', id: created.name },
+        after: {
+          description: created.description,
+          permissions: created.permissions,
+        },
+      })
+      return c.json(created, 201)
+    }
+  )
+  .get(
+    '/:name',
+    describeRoute({
+      summary: 'Get a role',
+      tags: ['Roles'],
+      responses: {
+        200: { description: 'The role', schema: RoleSchema },
+        404: { description: 'No role with this name' },
+      },
+    }),
+    validate({ params: RoleParamsSchema }),
+    async (c) => c.json(await getRole(c.req.valid('param').name))
+  )
+  .patch(
+    '/:name',
+    describeRoute({
+      summary: 'Update a role',
+      description: 'Permissions, when sent, replace the current ones',
+      tags: ['Roles'],
+      responses: {
+        200: { description: 'Role updated', schema: RoleSchema },
+        404: { description: 'No role with this name' },
+        409: { description: 'Built-in roles cannot be changed' },
+      },
+    }),
+    validate({
+      params: RoleParamsSchema,
+      body: z.object({
+        description: z.string().max(500).nullish(),
+        permissions: PermissionsSchema.optional(),
+      }),
+    }),
+    async (c) => {
+      const { name } = c.req.valid('param')
+      const previous = await getRole(name)
+      const updated = await updateRole(name, c.req.valid('json'))
+      await audit(c, {
+        action: 'role.updated',
+        target: { type: 'role', id: name },
+        before: {
+          description: previous.description,
+          permissions: previous.permissions,
+        },
+        after: {
+          description: updated.description,
+          permissions: updated.permissions,
+        },
+      })
+      return c.json(updated)
+    }
+  )
+  .delete(
+    '/:name',
+    describeRoute({
+      summary: 'Delete a role',
+      tags: ['Roles'],
+      responses: {
+        204: { description: 'Role deleted' },
+        404: { description: 'No role with this name' },
+        409: { description: 'Built-in role, or still assigned to users' },
+      },
+    }),
+    validate({ params: RoleParamsSchema }),
+    async (c) => {
+      const { name } = c.req.valid('param')
+      const previous = await getRole(name)
+      await deleteRole(name)
+      await audit(c, {
+        action: 'role.deleted',
+        target: { type: 'role', id: name },
+        before: {
+          description: previous.description,
+          permissions: previous.permissions,
+        },
+      })
+      return c.body(null, 204)
+    }
+  )
+
+export default roles
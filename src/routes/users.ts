@@ -0,0 +1,142 @@
+import { z } from 'zod'
+
+import { audit } from '@/lib/audit'
+import { createRouter } from '@/lib/create-app'
+import { NotFoundError } from '@/lib/errors'
+import { describeRoute } from '@/lib/openapi'
+import { validate } from '@/lib/validate'
+
+import { unlockUser } from '@/auth/account-lockout'
+import { adminGuard } from '@/auth/auth-guard'
+import { setUserRoles } from '@/auth/roles'
+import { listSessions, revokeSession, revokeSessions } from '@/auth/sessions'
+
+import { SessionSchema } from './me'
+import { RoleNameSchema } from './roles'
+
+const users = createRouter()
+  .put(
+    '/:id/roles',
+    describeRoute({
+      summary: "Replace a user's roles",
+      description: 'Guards apply the new roles on the next request',
+      tags: ['Roles'],
+      responses: {
+        200: {
+          description: 'Roles assigned',
+          schema: z.object({ id: z.string(), roles: z.array(z.string()) }),
+        },
+        404: { description: 'No user with this ID' },
+      },
+    }),
+    adminGuard(),
+    validate({
+      params: z.object({ id: z.uuid() }),
+      body: z.object({ roles: z.array(RoleNameSchema).min(1) }),
+    }),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const { previous, roles } = await setUserRoles(
+        id,
+        c.req.valid('json').roles
+      )
+      await audit(c, {
+        action: 'user.role_changed',
+        target: { type: 'user', id },
+        before: { role: previous.join(',') },
+        after: { role: roles.join(',') },
+      })
+      return c.json({ id, roles })
+    }
+  )
+  .get(
+    '/:id/sessions',
+    describeRoute({
+      summary: "List a user's sessions",
+      description: 'Signed-in devices, most recently active first',
+      tags: ['Sessions'],
+      responses: {
+        200: { description: 'Their sessions', schema: z.array(SessionSchema) },
+      },
+    }),
+    adminGuard(),
+    validate({ params: z.object({ id: z.uuid() }) }),
+    async (c) =>
+      c.json(await listSessions(c.req.valid('param').id, c.get('session')?.id))
+  )
+  .delete(
+    '/:id/sessions',
+    describeRoute({
+      summary: 'Sign a user out everywhere',
+      description:
+        'Revokes all their sessions, they stop working within seconds',
+      tags: ['Sessions'],
+      responses: {
+        200: {
+          description: 'Sessions revoked',
+          schema: z.object({ revoked: z.array(z.string()) }),
+        },
+      },
+    }),
+    adminGuard(),
+    validate({ params: z.object({ id: z.uuid() }) }),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const revoked = await revokeSessions(id)
+      await audit(c, {
+        action: 'user.sessions_revoked',
+        target: { type: 'user', id },
+        metadata: { sessionIds: revoked },
+      })
+      return c.json({ revoked })
+    }
+  )
+  .delete(
+    '/:id/sessions/:sessionId',
+    describeRoute({
+      summary: "Revoke one of a user's sessions",
+      description: 'Stops working within seconds',
+      tags: ['Sessions'],
+      responses: {
+        204: { description: 'Session revoked' },
+        404: { description: 'No session with this ID for the user' },
+      },
+    }),
+    adminGuard(),
+    validate({ params: z.object({ id: z.uuid(), sessionId: z.uuid() }) }),
+    async (c) => {
+      const { id, sessionId } = c.req.valid('param')
+      await revokeSession(id, sessionId)
+      await audit(c, {
+        action: 'session.revoked',
+        target: { type: 'session', id: sessionId },
+        metadata: { userId: id },
+      })
+      return c.body(null, 204)
+    }
+  )
+  .delete(
+    '/:id/lockout',
+    describeRoute({
+      summary: 'Unlock a user',
+      description:
+        'Forgets their failed sign-ins, lifting a lockout or sign-in delay',
+      tags: ['Users'],
+      responses: {
+        204: { description: 'Unlocked' },
+        404: { description: 'No failed sign-ins for this user' },
+      },
+    }),
+    adminGuard(),
+    validate({ params: z.object({ id: z.uuid() }) }),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      if (!(await unlockUser(id))) {
+        throw new NotFoundError('No failed sign-ins for this user')
+      }
+      await audit(c, { action: 'user.unlocked', target: { type: 'user', id } })
+      return c.body(null, 204)
+    }
+  )
+
+export default users
@@ -0,0 +1,251 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test'
+
+import { eq, or } from 'drizzle-orm'
+
+import db from '@/db'
+import { auditLog } from '@/db/schema/audit-schema'
+import { user } from '@/db/schema/auth-schema'
+
+import { MemoryMailTransport } from '@/lib/mail-transports'
+import { getMailTransport, processOutbox } from '@/lib/mailer'
+
+import { processAccountDeletions } from '@/auth/account-deletion'
+import { createApiKey } from '@/auth/api-keys'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, TEST_PASSWORD, type TestSession } from '../helpers/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let testApp: TestApp
+const transport = getMailTransport() as MemoryMailTransport
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+})
+
+afterEach(() => {
+  transport.clear()
+})
+
+const requestDeletion = (session: TestSession, password?: string) =>
+  testApp.request('/api/me/deletion', {
+    method: 'POST',
+    cookies: session.cookies,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  })
+
+const userRow = async (id: string) => {
+  const [row] = await db.select().from(user).where(eq(user.id, id))
+  return row
+}
+
+describe('GET /api/me/export', () => {
+  test('holds the data of every source without secrets', async () => {
+    const member = await actingAs()
+    await createApiKey(member.user.id, { name: 'CI', scopes: {} })
+
+    const res = await testApp.request('/api/me/export', {
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Disposition')).toStartWith('attachment;')
+    const body = await res.text()
+    const { data } = JSON.parse(body) as { data: Record<string, unknown[]> }
+    expect(data.user).toMatchObject({ email: member.user.email })
+    expect(data.accounts).toEqual([
+      expect.objectContaining({ providerId: 'credential' }),
+    ])
+    expect(data.sessions).toHaveLength(1)
+    expect(data.apiKeys).toEqual([expect.objectContaining({ name: 'CI' })])
+    expect(data).toContainKeys(['auditLog', 'mail', 'passkeys'])
+    expect(body).not.toContain('$argon2id$')
+    expect(body).not.toContain('keyHash')
+    expect(body).not.toContain('"token"')
+  })
+
+  test('can be a ZIP of one file per source', async () => {
+    const member = await actingAs()
+
+    const res = await testApp.request('/api/me/export?format=zip', {
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/zip')
+    const text = Buffer.from(await res.arrayBuffer()).toString('latin1')
+    expect(text).toStartWith('PK\x03\x04')
+    expect(text).toContain('user.json')
+    expect(text).toContain('sessions.json')
+  })
+})
+
+describe('account deletion', () => {
+  test('needs the password', async () => {
+    const member = await actingAs()
+
+    expect((await requestDeletion(member)).status).toBe(422)
+    expect((await requestDeletion(member, 'wrong-password')).status).toBe(422)
+    expect((await userRow(member.user.id)).deletionRequestedAt).toBeNull()
+  })
+
+  test('is scheduled after the grace period and can be cancelled', async () => {
+    const member = await actingAs()
+
+    const res = await requestDeletion(member, TEST_PASSWORD)
+
+    expect(res.status).toBe(200)
+    const { deleteAt } = (await res.json()) as { deleteAt: string }
+    expect(new Date(deleteAt).getTime() - Date.now()).toBeWithin(
+      29 * DAY_MS,
+      30 * DAY_MS + 1
+    )
+    await processOutbox()
+    expect(transport.messages).toEqual([
+      expect.objectContaining({
+        to: member.user.email,
+        subject: 'Your account is scheduled for deletion',
+      }),
+    ])
+
+    const cancel = () =>
+      testApp.request('/api/me/deletion', {
+        method: 'DELETE',
+        cookies: member.cookies,
+      })
+    expect((await cancel()).status).toBe(204)
+    expect((await cancel()).status).toBe(404)
+    expect((await processAccountDeletions(new Date(deleteAt))).deleted).toBe(0)
+    expect((await userRow(member.user.id)).deletionRequestedAt).toBeNull()
+  })
+
+  test('anonymises the account once due and purges it later', async () => {
+    const member = await actingAs()
+    const { email } = member.user
+    await createApiKey(member.user.id, { name: 'CI', scopes: {} })
+    await testApp.request('/api/auth/sign-in/email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'curl/8.0' },
+      body: JSON.stringify({ email, password: 'wrong-password' }),
+    })
+    const res = await requestDeletion(member, TEST_PASSWORD)
+    const { deleteAt } = (await res.json()) as { deleteAt: string }
+
+    expect(
+      await processAccountDeletions(new Date(new Date(deleteAt).getTime() - 1))
+    ).toEqual({ deleted: 0, purged: 0 })
+    expect(
+      (await processAccountDeletions(new Date(deleteAt))).deleted
+    ).toBeGreaterThanOrEqual(1)
+
+    const deleted = await userRow(member.user.id)
+    expect(deleted).toMatchObject({
+      name: 'Deleted user',
+      email: `deleted-${member.user.id}@deleted.invalid`,
+      image: null,
+    })
+    expect(deleted.deletedAt).toBeInstanceOf(Date)
+    const session = await testApp.request('/api/me/sessions', {
+      cookies: member.cookies,
+    })
+    expect(session.status).toBe(401)
+
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(
+        or(
+          eq(auditLog.actorId, member.user.id),
+          eq(auditLog.targetId, member.user.id)
+        )
+      )
+    expect(entries.map((entry) => entry.action)).toEqual(
+      expect.arrayContaining([
+        'user.sign_in_failed',
+        'user.deletion_requested',
+        'user.deleted',
+      ])
+    )
+    for (const entry of entries) {
+      expect(entry.ipAddress).toBeNull()
+      expect(entry.userAgent).toBeNull()
+    }
+    expect(JSON.stringify(entries)).not.toContain(email)
+
+    await processAccountDeletions(new Date(Date.now() + 31 * DAY_MS))
+    expect(await userRow(member.user.id)).toBeUndefined()
+  })
+})
+
+describe('anonymised users', () => {
+  let admin: TestSession
+  let deletedId: string
+
+  beforeAll(async () => {
+    admin = await actingAs({}, 'admin')
+    const member = await actingAs()
+    deletedId = member.user.id
+    const res = await requestDeletion(member, TEST_PASSWORD)
+    const { deleteAt } = (await res.json()) as { deleteAt: string }
+    await processAccountDeletions(new Date(deleteAt))
+  })
+
+  const post = (path: string, body: unknown) =>
+    testApp.request(path, {
+      method: 'POST',
+      cookies: admin.cookies,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  test('are left out of the admin user listing', async () => {
+    const res = await testApp.request(
+      '/api/auth/admin/list-users?searchValue=deleted-&limit=100',
+      { cookies: admin.cookies }
+    )
+
+    expect(res.status).toBe(200)
+    const { users, total } = (await res.json()) as {
+      users: { id: string }[]
+      total: number
+    }
+    expect(users.map(({ id }) => id)).not.toContain(deletedId)
+    expect(total).toBe(users.length)
+  })
+
+  test('cannot be given roles', async () => {
+    const res = await testApp.request(`/api/users/${deletedId}/roles`, {
+      method: 'PUT',
+      cookies: admin.cookies,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roles: ['admin'] }),
+    })
+    const viaAuth = await post('/api/auth/admin/set-role', {
+      userId: deletedId,
+      role: 'admin',
+    })
+
+    expect(res.status).toBe(404)
+    expect(viaAuth.status).toBe(404)
+    expect((await userRow(deletedId)).role).toBe('user')
+  })
+
+  test('cannot be invited to organizations', async () => {
+    const created = await post('/api/auth/organization/create', {
+      name: 'Acme',
+      slug: `acme-${deletedId}`,
+    })
+    const { id: organizationId } = (await created.json()) as { id: string }
+
+    const res = await post('/api/auth/organization/invite-member', {
+      email: `deleted-${deletedId}@deleted.invalid`,
+      role: 'member',
+      organizationId,
+    })
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toMatchObject({ code: 'USER_DELETED' })
+  })
+})
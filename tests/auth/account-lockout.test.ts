@@ -0,0 +1,189 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from 'bun:test'
+
+import { and, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { accountLockout } from '@/db/schema/account-lockout-schema'
+import { auditLog } from '@/db/schema/audit-schema'
+
+import { MemoryMailTransport } from '@/lib/mail-transports'
+import { getMailTransport, processOutbox } from '@/lib/mailer'
+import { resetRateLimits } from '@/lib/rate-limit'
+
+import { purgeFailedSignIns, recordFailedSignIn } from '@/auth/account-lockout'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, TEST_PASSWORD } from '../helpers/auth'
+
+let testApp: TestApp
+const transport = getMailTransport() as MemoryMailTransport
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+})
+
+// Sign-ins here add up past the per-IP limit
+afterEach(async () => {
+  setSystemTime()
+  transport.clear()
+  await resetRateLimits()
+})
+
+const signIn = (email: string, password = TEST_PASSWORD) =>
+  testApp.request('/api/auth/sign-in/email', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  })
+
+const later = (ms: number) => setSystemTime(new Date(Date.now() + ms))
+
+/**
+ * Fail enough sign-ins to lock the email, the last one through the app
+ */
+const lockAccount = async (email: string) => {
+  for (let i = 0; i < 9; i++) await recordFailedSignIn(email)
+  later(61_000)
+  expect((await signIn(email, 'wrong-password')).status).toBe(401)
+}
+
+describe('failed sign-ins', () => {
+  test('make the next attempt wait after a few', async () => {
+    const { user } = await actingAs()
+    for (let i = 0; i < 3; i++) {
+      expect((await signIn(user.email, 'wrong-password')).status).toBe(401)
+    }
+
+    const delayed = await signIn(user.email)
+    expect(delayed.status).toBe(429)
+    expect(delayed.headers.get('Retry-After')).toBe('1')
+    expect(await delayed.json()).toMatchObject({ code: 'SIGN_IN_DELAYED' })
+
+    later(1500)
+    expect((await signIn(user.email)).status).toBe(200)
+    // A successful sign-in starts the count over
+    expect((await signIn(user.email, 'wrong-password')).status).toBe(401)
+    expect((await signIn(user.email)).status).toBe(200)
+  })
+
+  test('lock the account and tell its owner', async () => {
+    const { user } = await actingAs()
+
+    await lockAccount(user.email)
+
+    const locked = await signIn(user.email)
+    expect(locked.status).toBe(429)
+    expect(await locked.json()).toMatchObject({ code: 'ACCOUNT_LOCKED' })
+    expect(Number(locked.headers.get('Retry-After'))).toBeGreaterThan(14 * 60)
+
+    await processOutbox()
+    expect(transport.last(user.email)?.subject).toBe(
+      'Your account was temporarily locked'
+    )
+    const [entry] = await db
+      .select()
+      .from(auditLog)
+      .where(
+        and(eq(auditLog.action, 'user.locked'), eq(auditLog.targetId, user.id))
+      )
+    expect(entry.metadata).toMatchObject({ failedAttempts: 10 })
+
+    later(15 * 60_000)
+    expect((await signIn(user.email)).status).toBe(200)
+  })
+
+  test('are answered alike whether or not the email has an account', async () => {
+    const { user } = await actingAs()
+    const answers = async (email: string) => {
+      const codes: [number, unknown][] = []
+      for (let i = 0; i < 4; i++) {
+        const res = await signIn(email, 'guess')
+        codes.push([res.status, ((await res.json()) as { code?: string }).code])
+      }
+      return codes
+    }
+
+    const known = await answers(user.email)
+
+    expect(known.at(-1)).toEqual([429, 'SIGN_IN_DELAYED'])
+    expect(await answers('nobody@example.com')).toEqual(known)
+  })
+
+  test('lock emails without an account too', async () => {
+    const email = 'no-account@example.com'
+
+    await lockAccount(email)
+
+    const locked = await signIn(email)
+    expect(locked.status).toBe(429)
+    expect(await locked.json()).toMatchObject({ code: 'ACCOUNT_LOCKED' })
+    await processOutbox()
+    expect(transport.messages).toHaveLength(0)
+  })
+
+  test('are limited per email, whatever the password', async () => {
+    const { user } = await actingAs()
+    for (let i = 0; i < 10; i++) {
+      expect((await signIn(user.email)).status).toBe(200)
+    }
+
+    expect((await signIn(user.email)).status).toBe(429)
+    expect((await signIn('someone@example.com', 'guess')).status).toBe(401)
+  })
+})
+
+describe('purgeFailedSignIns', () => {
+  test('forgets emails once their failures are past the reset window', async () => {
+    await recordFailedSignIn('old-guess@example.com')
+    later(30 * 60 * 1000)
+    await recordFailedSignIn('new-guess@example.com')
+    later(31 * 60 * 1000)
+
+    await purgeFailedSignIns()
+
+    const emails = (
+      await db.select({ email: accountLockout.email }).from(accountLockout)
+    ).map(({ email }) => email)
+    expect(emails).toContain('new-guess@example.com')
+    expect(emails).not.toContain('old-guess@example.com')
+  })
+})
+
+describe('DELETE /api/users/:id/lockout', () => {
+  test('lets admins unlock accounts', async () => {
+    const admin = await actingAs({}, 'admin')
+    const { user } = await actingAs()
+    await lockAccount(user.email)
+
+    const res = await testApp.request(`/api/users/${user.id}/lockout`, {
+      method: 'DELETE',
+      cookies: admin.cookies,
+    })
+
+    expect(res.status).toBe(204)
+    expect((await signIn(user.email)).status).toBe(200)
+    const again = await testApp.request(`/api/users/${user.id}/lockout`, {
+      method: 'DELETE',
+      cookies: admin.cookies,
+    })
+    expect(again.status).toBe(404)
+  })
+
+  test('is only available to admins', async () => {
+    const member = await actingAs()
+
+    const res = await testApp.request(`/api/users/${member.user.id}/lockout`, {
+      method: 'DELETE',
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(403)
+  })
+})
@@ -0,0 +1,209 @@
+import { beforeAll, describe, expect, setSystemTime, test } from 'bun:test'
+
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { apiKey } from '@/db/schema/api-key-schema'
+
+import { createRouter } from '@/lib/create-app'
+import { createUserRateLimit } from '@/lib/rate-limit'
+
+import { adminGuard, authGuard, permissionGuard } from '@/auth/auth-guard'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, type TestSession } from '../helpers/auth'
+
+const routes = createRouter()
+  .get('/me', authGuard(), (c) =>
+    c.json({ userId: c.get('user')?.id, keyId: c.get('apiKey')?.id })
+  )
+  .get('/users', permissionGuard({ user: ['list'] }), (c) => c.text('ok'))
+  .get('/exports', permissionGuard({ dashboard: ['export'] }), (c) =>
+    c.text('ok')
+  )
+  .get('/admin', adminGuard(), (c) => c.text('ok'))
+  .get('/limited', createUserRateLimit({ limit: 5 }), (c) => c.text('ok'))
+
+let testApp: TestApp
+let admin: TestSession
+
+interface CreatedKey {
+  id: string
+  key: string
+  prefix: string
+}
+
+const createKey = async (
+  body: Record<string, unknown>,
+  session: TestSession = admin
+) =>
+  testApp.request('/api/api-keys', {
+    method: 'POST',
+    cookies: session.cookies,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: 'cron', ...body }),
+  })
+
+const newKey = async (body: Record<string, unknown> = {}) => {
+  const res = await createKey({ scopes: { user: ['list'] }, ...body })
+  expect(res.status).toBe(201)
+  return (await res.json()) as CreatedKey
+}
+
+const withKey = (path: string, key: string) =>
+  testApp.request(path, { headers: { 'X-API-Key': key } })
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+  admin = await actingAs({}, 'admin')
+})
+
+describe('API key authentication', () => {
+  test('acts as the user that created the key', async () => {
+    const { id, key } = await newKey()
+
+    const res = await withKey('/api/test/me', key)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ userId: admin.user.id, keyId: id })
+  })
+
+  test('accepts keys as bearer tokens', async () => {
+    const { key } = await newKey()
+
+    const res = await testApp.request('/api/test/me', {
+      headers: { Authorization: `Bearer ${key}` },
+    })
+
+    expect(res.status).toBe(200)
+  })
+
+  test('rejects unknown keys instead of treating them as anonymous', async () => {
+    const res = await withKey('/api/test/me', 'htz_not-a-key')
+
+    expect(res.status).toBe(401)
+    expect(await res.json()).toMatchObject({
+      detail: 'Invalid or expired API key',
+    })
+  })
+
+  test('limits permission checks to the scopes of the key', async () => {
+    const { key } = await newKey({ scopes: { user: ['list'] } })
+
+    // The admin may export, the key may not
+    expect((await withKey('/api/test/users', key)).status).toBe(200)
+    expect((await withKey('/api/test/exports', key)).status).toBe(403)
+  })
+
+  test('never passes role guards', async () => {
+    const { key } = await newKey()
+
+    expect((await withKey('/api/test/admin', key)).status).toBe(403)
+  })
+
+  test('stops accepting expired keys', async () => {
+    const { key } = await newKey({
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    })
+    expect((await withKey('/api/test/me', key)).status).toBe(200)
+
+    setSystemTime(Date.now() + 120_000)
+    try {
+      expect((await withKey('/api/test/me', key)).status).toBe(401)
+    } finally {
+      setSystemTime()
+    }
+  })
+
+  test('records when a key was last used', async () => {
+    const { id, key } = await newKey()
+
+    await withKey('/api/test/me', key)
+
+    const [row] = await db
+      .select({ lastUsedAt: apiKey.lastUsedAt })
+      .from(apiKey)
+      .where(eq(apiKey.id, id))
+    expect(row.lastUsedAt).toBeInstanceOf(Date)
+  })
+
+  test('rate limits each key against its own limit', async () => {
+    const { key } = await newKey({ rateLimit: 2 })
+    const other = await newKey()
+
+    expect((await withKey('/api/test/limited', key)).status).toBe(200)
+    expect((await withKey('/api/test/limited', key)).status).toBe(200)
+    expect((await withKey('/api/test/limited', key)).status).toBe(429)
+    expect((await withKey('/api/test/limited', other.key)).status).toBe(200)
+  })
+})
+
+describe('API keys API', () => {
+  test('only shows the key on creation', async () => {
+    const created = await newKey({ name: 'listed' })
+    expect(created.key.startsWith(created.prefix)).toBe(true)
+
+    const res = await testApp.request('/api/api-keys', {
+      cookies: admin.cookies,
+    })
+
+    expect(res.status).toBe(200)
+    const keys = (await res.json()) as Record<string, unknown>[]
+    expect(keys).toContainEqual(
+      expect.objectContaining({ id: created.id, name: 'listed' })
+    )
+    expect(keys.every((key) => !('key' in key) && !('keyHash' in key))).toBe(
+      true
+    )
+  })
+
+  test('rejects scopes beyond the permissions of the user', async () => {
+    const member = await actingAs({}, 'user')
+
+    const res = await createKey({ scopes: { user: ['list'] } }, member)
+
+    expect(res.status).toBe(422)
+    expect(await res.json()).toMatchObject({
+      errors: [{ path: 'scopes', message: 'Scopes exceed your permissions' }],
+    })
+  })
+
+  test('requires a membership for organization keys', async () => {
+    const res = await createKey({
+      scopes: {},
+      organizationId: crypto.randomUUID(),
+    })
+
+    expect(res.status).toBe(422)
+  })
+
+  test("can't be used with an API key", async () => {
+    const { key } = await newKey()
+
+    expect((await withKey('/api/api-keys', key)).status).toBe(403)
+  })
+
+  test('revokes keys at once', async () => {
+    const { id, key } = await newKey()
+
+    const res = await testApp.request(`/api/api-keys/${id}`, {
+      method: 'DELETE',
+      cookies: admin.cookies,
+    })
+
+    expect(res.status).toBe(204)
+    expect((await withKey('/api/test/me', key)).status).toBe(401)
+  })
+
+  test("doesn't revoke keys of other users", async () => {
+    const { id } = await newKey()
+    const other = await actingAs({}, 'user')
+
+    const res = await testApp.request(`/api/api-keys/${id}`, {
+      method: 'DELETE',
+      cookies: other.cookies,
+    })
+
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,216 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import { and, desc, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { auditLog } from '@/db/schema/audit-schema'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import {
+  actingAs,
+  signIn,
+  TEST_PASSWORD,
+  type TestSession,
+} from '../helpers/auth'
+
+interface AuditPage {
+  entries: Record<string, unknown>[]
+  nextCursor: string | null
+}
+
+let testApp: TestApp
+let admin: TestSession
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+  admin = await actingAs({}, 'admin')
+})
+
+const send = (
+  path: string,
+  body?: unknown,
+  { session = admin, method = body === undefined ? 'GET' : 'POST' } = {}
+) =>
+  testApp.request(path, {
+    method,
+    cookies: session.cookies,
+    ...(body === undefined
+      ? {}
+      : {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+  })
+
+/**
+ * Latest entry recorded for `action` on a target
+ */
+const lastEntry = async (action: string, targetId: string) => {
+  const [entry] = await db
+    .select()
+    .from(auditLog)
+    .where(and(eq(auditLog.action, action), eq(auditLog.targetId, targetId)))
+    .orderBy(desc(auditLog.id))
+    .limit(1)
+  return entry
+}
+
+describe('Better Auth events', () => {
+  test('records sign-ins with the request they came from', async () => {
+    const { user } = await actingAs()
+
+    const res = await testApp.request('/api/auth/sign-in/email', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'audit-test/1.0',
+        'X-Request-ID': 'spoofed',
+      },
+      body: JSON.stringify({ email: user.email, password: TEST_PASSWORD }),
+    })
+    expect(res.status).toBe(200)
+
+    const entry = await lastEntry('user.signed_in', user.id)
+    expect(entry).toMatchObject({
+      actorId: user.id,
+      targetType: 'user',
+      userAgent: 'audit-test/1.0',
+      metadata: { method: '/sign-in/email' },
+    })
+    expect(entry.requestId).toStartWith('TRX-')
+  })
+
+  test('records failed sign-ins against the account', async () => {
+    const { user } = await actingAs()
+
+    expect(await signIn(user.email, 'wrong-password').catch(() => null)).toBe(
+      null
+    )
+
+    expect(await lastEntry('user.sign_in_failed', user.id)).toMatchObject({
+      actorId: null,
+      metadata: { email: user.email, reason: 'INVALID_EMAIL_OR_PASSWORD' },
+    })
+  })
+
+  test('records sign-outs', async () => {
+    const member = await actingAs()
+
+    await send('/api/auth/sign-out', {}, { session: member })
+
+    expect(await lastEntry('user.signed_out', member.user.id)).toMatchObject({
+      actorId: member.user.id,
+    })
+  })
+
+  test('records bans and role changes with what changed', async () => {
+    const { user } = await actingAs()
+
+    await send('/api/auth/admin/ban-user', {
+      userId: user.id,
+      banReason: 'Spam',
+    })
+    await send('/api/auth/admin/set-role', { userId: user.id, role: 'admin' })
+
+    expect(await lastEntry('user.banned', user.id)).toMatchObject({
+      actorId: admin.user.id,
+      changes: {
+        banned: { before: null, after: true },
+        banReason: { before: null, after: 'Spam' },
+      },
+    })
+    expect(await lastEntry('user.role_changed', user.id)).toMatchObject({
+      actorId: admin.user.id,
+      changes: { role: { before: 'user', after: 'admin' } },
+    })
+  })
+
+  test('records impersonation and what the admin did through it', async () => {
+    const { user } = await actingAs()
+    // Its own admin, impersonation swaps the session cookie
+    const admin2 = await actingAs({}, 'admin')
+
+    const res = await send(
+      '/api/auth/admin/impersonate-user',
+      { userId: user.id },
+      { session: admin2 }
+    )
+    expect(res.status).toBe(200)
+    await send('/api/api-keys', { name: 'ci', scopes: {} }, { session: admin2 })
+    await send('/api/auth/admin/stop-impersonating', {}, { session: admin2 })
+
+    expect(await lastEntry('user.impersonated', user.id)).toMatchObject({
+      actorId: admin2.user.id,
+      impersonatorId: null,
+    })
+    const [created] = await db
+      .select()
+      .from(auditLog)
+      .where(
+        and(
+          eq(auditLog.action, 'api_key.created'),
+          eq(auditLog.actorId, user.id)
+        )
+      )
+    expect(created.impersonatorId).toBe(admin2.user.id)
+    expect(
+      await lastEntry('user.impersonation_stopped', user.id)
+    ).toMatchObject({ actorId: user.id, impersonatorId: admin2.user.id })
+  })
+})
+
+describe('GET /api/audit-log', () => {
+  test('filters entries and pages through them', async () => {
+    const { user } = await actingAs()
+    await send(
+      `/api/users/${user.id}/roles`,
+      { roles: ['admin'] },
+      { method: 'PUT' }
+    )
+    await send('/api/auth/admin/ban-user', { userId: user.id })
+
+    const res = await send(
+      `/api/audit-log?targetId=${user.id}&action=user.*&limit=1`
+    )
+    expect(res.status).toBe(200)
+    const page = (await res.json()) as AuditPage
+    expect(page.entries).toHaveLength(1)
+    expect(page.entries[0]).toMatchObject({ action: 'user.banned' })
+
+    const next = await send(
+      `/api/audit-log?targetId=${user.id}&action=user.*&limit=1&cursor=${page.nextCursor}`
+    )
+    expect(((await next.json()) as AuditPage).entries[0]).toMatchObject({
+      action: 'user.role_changed',
+      actorId: admin.user.id,
+      changes: { role: { before: 'user', after: 'admin' } },
+    })
+  })
+
+  test('exports matching entries as CSV', async () => {
+    const { user } = await actingAs()
+    await send('/api/auth/admin/ban-user', {
+      userId: user.id,
+      banReason: 'Spam',
+    })
+
+    const res = await send(
+      `/api/audit-log/export?targetId=${user.id}&action=user.banned`
+    )
+
+    expect(res.headers.get('Content-Type')).toStartWith('text/csv')
+    const [header, row, ...rest] = (await res.text()).trim().split('\r\n')
+    expect(header).toStartWith('id,createdAt,action,actorId')
+    expect(rest).toHaveLength(0)
+    expect(row).toContain(`,user.banned,${admin.user.id},`)
+    expect(row).toContain('""after"":""Spam""')
+  })
+
+  test('is only available to admins', async () => {
+    const member = await actingAs()
+
+    const res = await send('/api/audit-log', undefined, { session: member })
+
+    expect(res.status).toBe(403)
+  })
+})
@@ -0,0 +1,213 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test'
+
+import { createRouter } from '@/lib/create-app'
+import { ConflictError, PROBLEM_CONTENT_TYPE } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+import {
+  adminGuard,
+  authGuard,
+  permissionGuard,
+  roleGuard,
+  roleOrPermissionGuard,
+} from '@/auth/auth-guard'
+import * as roles from '@/auth/roles'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, signUp, type TestSession } from '../helpers/auth'
+
+const routes = createRouter()
+  .get('/auth', authGuard(), (c) => c.json({ userId: c.get('user')?.id }))
+  .get('/admin', adminGuard(), (c) => c.text('ok'))
+  .get('/editors', roleGuard(['admin', 'editor']), (c) => c.text('ok'))
+  .get('/users', permissionGuard({ user: ['list'] }), (c) => c.text('ok'))
+  .get(
+    '/reports',
+    permissionGuard({
+      any: [{ dashboard: ['export'] }, { user: ['list'] }],
+    }),
+    (c) => c.text('ok')
+  )
+  .get(
+    '/audit',
+    permissionGuard({ all: [{ dashboard: ['read'] }, { session: ['list'] }] }),
+    (c) => c.text('ok')
+  )
+  .get(
+    '/dashboard',
+    permissionGuard({ dashboard: ['read'] }),
+    permissionGuard({ dashboard: ['read'] }),
+    (c) => c.text('ok')
+  )
+  .post('/conflict', permissionGuard({ dashboard: ['read'] }), () => {
+    throw new ConflictError()
+  })
+  .get(
+    '/sessions',
+    roleOrPermissionGuard('editor', { session: ['list'] }),
+    (c) => c.text('ok')
+  )
+
+let testApp: TestApp
+let member: TestSession
+let editor: TestSession
+let admin: TestSession
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+  member = await actingAs({}, 'user')
+  editor = await actingAs({}, 'editor')
+  admin = await actingAs({}, 'admin')
+})
+
+afterEach(() => {
+  mock.restore()
+})
+
+const statusOf = async (path: string, session?: TestSession) => {
+  const res = await testApp.request(`/api/test${path}`, {
+    cookies: session?.cookies,
+  })
+  return res.status
+}
+
+describe('authGuard', () => {
+  test('rejects anonymous requests with a problem response', async () => {
+    const res = await testApp.request('/api/test/auth')
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('Content-Type')).toStartWith(PROBLEM_CONTENT_TYPE)
+    expect(await res.json()).toMatchObject({
+      type: 'urn:problem:unauthorized',
+      status: 401,
+      instance: '/api/test/auth',
+    })
+  })
+
+  test('lets signed-in users through with the user in context', async () => {
+    const { user, cookies } = await signUp()
+    const res = await testApp.request('/api/test/auth', { cookies })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ userId: user.id })
+  })
+})
+
+describe('adminGuard', () => {
+  test('requires a session', async () => {
+    expect(await statusOf('/admin')).toBe(401)
+  })
+
+  test('forbids other roles', async () => {
+    expect(await statusOf('/admin', member)).toBe(403)
+    expect(await statusOf('/admin', editor)).toBe(403)
+  })
+
+  test('allows admins', async () => {
+    expect(await statusOf('/admin', admin)).toBe(200)
+  })
+})
+
+describe('roleGuard', () => {
+  test('requires a session', async () => {
+    expect(await statusOf('/editors')).toBe(401)
+  })
+
+  test('allows any of the listed roles', async () => {
+    expect(await statusOf('/editors', editor)).toBe(200)
+    expect(await statusOf('/editors', admin)).toBe(200)
+  })
+
+  test('forbids roles not listed', async () => {
+    const res = await testApp.request('/api/test/editors', {
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({ type: 'urn:problem:forbidden' })
+  })
+})
+
+describe('permissionGuard', () => {
+  test('requires a session', async () => {
+    expect(await statusOf('/users')).toBe(401)
+  })
+
+  test('allows roles granted the permission', async () => {
+    expect(await statusOf('/users', admin)).toBe(200)
+  })
+
+  test('forbids roles without the permission', async () => {
+    const res = await testApp.request('/api/test/users', {
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({ type: 'urn:problem:forbidden' })
+  })
+
+  test('any passes when one of the permissions is granted', async () => {
+    expect(await statusOf('/reports', admin)).toBe(200)
+    expect(await statusOf('/reports', member)).toBe(403)
+  })
+
+  test('all requires every permission', async () => {
+    expect(await statusOf('/audit', admin)).toBe(200)
+    expect(await statusOf('/audit', member)).toBe(403)
+  })
+
+  test('looks up the same permissions once per request', async () => {
+    const lookup = spyOn(roles, 'userPermissions')
+
+    expect(await statusOf('/dashboard', member)).toBe(200)
+    expect(lookup).toHaveBeenCalledTimes(1)
+  })
+
+  test('reports lookup failures as server errors', async () => {
+    spyOn(roles, 'userPermissions').mockRejectedValueOnce(
+      new Error('Connection terminated unexpectedly')
+    )
+    spyOn(logger, 'write').mockImplementation(() => {})
+
+    const res = await testApp.request('/api/test/dashboard', {
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(500)
+    expect(await res.json()).toMatchObject({
+      type: 'urn:problem:permission-check-failed',
+    })
+  })
+
+  test('does not turn handler errors into denials', async () => {
+    const res = await testApp.request('/api/test/conflict', {
+      method: 'POST',
+      cookies: member.cookies,
+    })
+
+    expect(res.status).toBe(409)
+  })
+})
+
+describe('roleOrPermissionGuard', () => {
+  test('requires a session', async () => {
+    expect(await statusOf('/sessions')).toBe(401)
+  })
+
+  test('allows the listed roles without checking permissions', async () => {
+    expect(await statusOf('/sessions', editor)).toBe(200)
+  })
+
+  test('falls back to permissions for other roles', async () => {
+    expect(await statusOf('/sessions', admin)).toBe(200)
+    expect(await statusOf('/sessions', member)).toBe(403)
+  })
+})
@@ -0,0 +1,100 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test'
+
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { user } from '@/db/schema/auth-schema'
+
+import { MemoryMailTransport } from '@/lib/mail-transports'
+import { getMailTransport, processOutbox } from '@/lib/mailer'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, CookieJar, signIn, signUp } from '../helpers/auth'
+
+let testApp: TestApp
+const transport = getMailTransport() as MemoryMailTransport
+
+const post = (path: string, body: unknown) =>
+  testApp.request(`/api/auth${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+/**
+ * Deliver queued mail and return the link in the last message to `to`
+ */
+const linkSentTo = async (to: string) => {
+  await processOutbox()
+  const message = transport.last(to)
+  expect(message).toBeDefined()
+  return new URL(message!.text.match(/https?:\/\/\S+/)![0])
+}
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+})
+
+afterEach(() => {
+  transport.clear()
+})
+
+describe('email verification', () => {
+  test('sends a link on sign-up that verifies the address', async () => {
+    const { user: created } = await signUp()
+    expect(created.emailVerified).toBe(false)
+
+    const link = await linkSentTo(created.email)
+    expect(transport.last(created.email)?.subject).toBe(
+      'Verify your email address'
+    )
+    const res = await testApp.request(link.pathname + link.search, {
+      cookies: new CookieJar(),
+    })
+    expect(res.status).toBeLessThan(400)
+
+    const [row] = await db
+      .select({ emailVerified: user.emailVerified })
+      .from(user)
+      .where(eq(user.id, created.id))
+    expect(row.emailVerified).toBe(true)
+  })
+})
+
+describe('password reset', () => {
+  test('emails a token that sets a new password', async () => {
+    const { user: existing } = await actingAs()
+
+    const requested = await post('/request-password-reset', {
+      email: existing.email,
+      redirectTo: 'http://localhost:3001/reset-password',
+    })
+    expect(requested.status).toBe(200)
+
+    const link = await linkSentTo(existing.email)
+    expect(transport.last(existing.email)?.subject).toBe('Reset your password')
+    const token = link.pathname.split('/').at(-1)
+
+    const reset = await post('/reset-password', {
+      token,
+      newPassword: 'a-brand-new-password',
+    })
+    expect(reset.status).toBe(200)
+
+    expect(await signIn(existing.email).catch(() => null)).toBeNull()
+    expect((await signIn(existing.email, 'a-brand-new-password')).user.id).toBe(
+      existing.id
+    )
+  })
+
+  test("doesn't reveal whether an address has an account", async () => {
+    const res = await post('/request-password-reset', {
+      email: 'nobody@example.com',
+      redirectTo: 'http://localhost:3001/reset-password',
+    })
+
+    expect(res.status).toBe(200)
+    await processOutbox()
+    expect(transport.messages).toHaveLength(0)
+  })
+})
@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import { and, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { member } from '@/db/schema/auth-schema'
+
+import { createRouter } from '@/lib/create-app'
+
+import { orgGuard } from '@/auth/auth-guard'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, type TestSession } from '../helpers/auth'
+
+const routes = createRouter()
+  .get('/org', orgGuard(), (c) => c.json(c.get('organization')))
+  .get('/org/settings', orgGuard(['owner', 'admin']), (c) => c.text('ok'))
+
+let testApp: TestApp
+let owner: TestSession
+let organizationId: string
+
+const post = (path: string, body: unknown, session: TestSession) =>
+  testApp.request(`/api/auth${path}`, {
+    method: 'POST',
+    cookies: session.cookies,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+const statusOf = async (path: string, session: TestSession) =>
+  (await testApp.request(path, { cookies: session.cookies })).status
+
+/**
+ * Add `session`'s user to the organization and make it the active one
+ */
+const join = async (session: TestSession, role: string) => {
+  await db.insert(member).values({
+    organizationId,
+    userId: session.user.id,
+    role,
+    createdAt: new Date(),
+  })
+  const res = await post(
+    '/organization/set-active',
+    { organizationId },
+    session
+  )
+  expect(res.status).toBe(200)
+}
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+  owner = await actingAs()
+
+  const res = await post(
+    '/organization/create',
+    { name: 'Acme', slug: 'acme' },
+    owner
+  )
+  expect(res.status).toBe(200)
+  organizationId = ((await res.json()) as { id: string }).id
+  // Creating an organization doesn't refresh the cached session cookie
+  await post('/organization/set-active', { organizationId }, owner)
+})
+
+describe('orgGuard', () => {
+  test('requires authentication', async () => {
+    expect((await testApp.request('/api/test/org')).status).toBe(401)
+  })
+
+  test('requires an active organization', async () => {
+    expect(await statusOf('/api/test/org', await actingAs())).toBe(403)
+  })
+
+  test('exposes the active organization to handlers', async () => {
+    const res = await testApp.request('/api/test/org', {
+      cookies: owner.cookies,
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      id: organizationId,
+      name: 'Acme',
+      slug: 'acme',
+      memberId: expect.any(String),
+      role: 'owner',
+    })
+  })
+
+  test('restricts routes to organization roles', async () => {
+    const colleague = await actingAs()
+    await join(colleague, 'member')
+
+    expect(await statusOf('/api/test/org', colleague)).toBe(200)
+    expect(await statusOf('/api/test/org/settings', colleague)).toBe(403)
+    expect(await statusOf('/api/test/org/settings', owner)).toBe(200)
+  })
+
+  test('matches any of several organization roles', async () => {
+    const manager = await actingAs()
+    await join(manager, 'member,admin')
+
+    expect(await statusOf('/api/test/org/settings', manager)).toBe(200)
+  })
+
+  test('denies removed members at once', async () => {
+    const leaver = await actingAs()
+    await join(leaver, 'member')
+    expect(await statusOf('/api/test/org', leaver)).toBe(200)
+
+    await db
+      .delete(member)
+      .where(
+        and(
+          eq(member.organizationId, organizationId),
+          eq(member.userId, leaver.user.id)
+        )
+      )
+
+    // The session still names the organization, the membership is gone
+    expect(await statusOf('/api/test/org', leaver)).toBe(403)
+  })
+})
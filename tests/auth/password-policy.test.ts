@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { hash } from '@node-rs/argon2'
+import { and, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { account } from '@/db/schema/auth-schema'
+
+import { passwordScore } from '@/auth/password-policy'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, TEST_PASSWORD, type TestSession } from '../helpers/auth'
+
+const BREACHED = 'correct horse battery staple'
+
+const dir = mkdtempSync(join(tmpdir(), 'breached-'))
+let testApp: TestApp
+
+beforeAll(async () => {
+  const lines = [BREACHED, 'another leaked passphrase', 'hunter2 hunter2']
+    .map(
+      (password) =>
+        `${new Bun.CryptoHasher('sha1').update(password).digest('hex').toUpperCase()}:42`
+    )
+    .sort()
+  process.env.BREACHED_PASSWORDS_FILE = join(dir, 'pwned.txt')
+  writeFileSync(
+    process.env.BREACHED_PASSWORDS_FILE,
+    `${lines.join('\r\n')}\r\n`
+  )
+
+  testApp = await createTestApp()
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true })
+})
+
+const post = (path: string, body: unknown, session?: TestSession) =>
+  testApp.request(`/api/auth${path}`, {
+    method: 'POST',
+    cookies: session?.cookies,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+const signUp = (password: string, name = 'Grace Hopper') =>
+  post('/sign-up/email', {
+    name,
+    email: `${Bun.randomUUIDv7('hex').slice(-8)}@example.com`,
+    password,
+  })
+
+const storedHash = async (userId: string) => {
+  const [row] = await db
+    .select({ password: account.password })
+    .from(account)
+    .where(
+      and(eq(account.userId, userId), eq(account.providerId, 'credential'))
+    )
+  return row.password!
+}
+
+const setStoredHash = (userId: string, password: string) =>
+  db.update(account).set({ password }).where(eq(account.userId, userId))
+
+describe('passwordScore', () => {
+  test('rates repeated characters and runs low', () => {
+    expect(passwordScore('aaaaaaaaaaaa')).toBe(0)
+    expect(passwordScore('abcdefgh12345678')).toBeLessThan(2)
+    expect(passwordScore('password')).toBe(1)
+  })
+
+  test('rates long mixed passwords high', () => {
+    expect(passwordScore(TEST_PASSWORD)).toBe(4)
+    expect(passwordScore('Tr0ub4dor&3')).toBe(3)
+  })
+})
+
+describe('new passwords', () => {
+  test.each([
+    ['aaaaaaaaaaaa', 'PASSWORD_TOO_WEAK'],
+    ['hopper-rules-2026', 'PASSWORD_CONTAINS_PERSONAL_INFO'],
+    [BREACHED, 'PASSWORD_BREACHED'],
+  ])('refuses %s', async (password, code) => {
+    const res = await signUp(password)
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toMatchObject({ code })
+  })
+
+  test('accepts strong ones', async () => {
+    expect((await signUp('velvet-comet-orchard-41')).status).toBe(200)
+  })
+
+  test("can't repeat the user's last ones", async () => {
+    const member = await actingAs()
+    const change = (currentPassword: string, newPassword: string) =>
+      post('/change-password', { currentPassword, newPassword }, member)
+
+    expect((await change(TEST_PASSWORD, TEST_PASSWORD)).status).toBe(400)
+    expect(
+      (await change(TEST_PASSWORD, 'velvet-comet-orchard-41')).status
+    ).toBe(200)
+    const reused = await change('velvet-comet-orchard-41', TEST_PASSWORD)
+
+    expect(reused.status).toBe(400)
+    expect(await reused.json()).toMatchObject({ code: 'PASSWORD_REUSED' })
+  })
+
+  test('apply to passwords set by admins', async () => {
+    const admin = await actingAs({}, 'admin')
+    const { user } = await actingAs()
+
+    const res = await post(
+      '/admin/set-user-password',
+      { userId: user.id, newPassword: 'aaaaaaaaaaaa' },
+      admin
+    )
+
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('outdated hashes', () => {
+  const signIn = (email: string) =>
+    post('/sign-in/email', { email, password: TEST_PASSWORD })
+
+  test('are upgraded to the current parameters on sign-in', async () => {
+    const { user } = await actingAs()
+    await setStoredHash(
+      user.id,
+      await hash(TEST_PASSWORD, { memoryCost: 8192, timeCost: 1 })
+    )
+
+    expect((await signIn(user.email)).status).toBe(200)
+
+    expect(await storedHash(user.id)).toStartWith(
+      '$argon2id$v=19$m=19456,t=2,p=1$'
+    )
+  })
+
+  test('include bcrypt hashes of imported accounts', async () => {
+    const { user } = await actingAs()
+    await setStoredHash(
+      user.id,
+      await Bun.password.hash(TEST_PASSWORD, { algorithm: 'bcrypt', cost: 4 })
+    )
+
+    expect((await signIn(user.email)).status).toBe(200)
+
+    expect(await storedHash(user.id)).toStartWith('$argon2id$')
+    expect((await signIn(user.email)).status).toBe(200)
+  })
+})
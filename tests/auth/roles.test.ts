@@ -0,0 +1,261 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from 'bun:test'
+
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { role, rolePermission } from '@/db/schema/role-schema'
+
+import { createRouter } from '@/lib/create-app'
+
+import { permissionGuard, roleGuard } from '@/auth/auth-guard'
+import { deleteRole, setUserRoles, userRoles } from '@/auth/roles'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { actingAs, type TestSession } from '../helpers/auth'
+
+const routes = createRouter()
+  .get('/users', permissionGuard({ user: ['list'] }), (c) => c.text('ok'))
+  .get('/exports', permissionGuard({ dashboard: ['export'] }), (c) =>
+    c.text('ok')
+  )
+  .get('/support', roleGuard('support'), (c) => c.text('ok'))
+
+let testApp: TestApp
+let admin: TestSession
+let member: TestSession
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+  admin = await actingAs({}, 'admin')
+  member = await actingAs({}, 'user')
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+const send = (
+  method: string,
+  path: string,
+  body?: unknown,
+  session: TestSession = admin
+) =>
+  testApp.request(path, {
+    method,
+    cookies: session.cookies,
+    ...(body === undefined
+      ? {}
+      : {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+  })
+
+const statusOf = async (path: string, session: TestSession) =>
+  (await testApp.request(path, { cookies: session.cookies })).status
+
+describe('roles API', () => {
+  test('is reserved to admins', async () => {
+    expect((await send('GET', '/api/roles', undefined, member)).status).toBe(
+      403
+    )
+  })
+
+  test('lists the built-in roles', async () => {
+    const res = await send('GET', '/api/roles')
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'admin', builtIn: true }),
+        expect.objectContaining({
+          name: 'user',
+          builtIn: true,
+          permissions: expect.objectContaining({ dashboard: ['read'] }),
+        }),
+      ])
+    )
+  })
+
+  test('creates roles with permissions from the statement', async () => {
+    const res = await send('POST', '/api/roles', {
+      name: 'auditor',
+      description: 'Read-only access to users',
+      permissions: { user: ['list'], dashboard: ['read'] },
+    })
+
+    expect(res.status).toBe(201)
+    expect(await res.json()).toEqual({
+      name: 'auditor',
+      description: 'Read-only access to users',
+      builtIn: false,
+      permissions: { user: ['list'], dashboard: ['read'] },
+    })
+    expect((await send('GET', '/api/roles/auditor')).status).toBe(200)
+  })
+
+  test('rejects resources and actions missing from the statement', async () => {
+    const res = await send('POST', '/api/roles', {
+      name: 'pharmacist',
+      permissions: { patients: ['read'], dashboard: ['delete'] },
+    })
+
+    expect(res.status).toBe(422)
+    const { errors } = (await res.json()) as { errors: { path: string }[] }
+    expect(errors.map((error) => error.path).sort()).toEqual([
+      'permissions.dashboard.0',
+      'permissions.patients',
+    ])
+  })
+
+  test('rejects names taken by other roles', async () => {
+    await send('POST', '/api/roles', { name: 'taken', permissions: {} })
+
+    expect(
+      (await send('POST', '/api/roles', { name: 'taken', permissions: {} }))
+        .status
+    ).toBe(409)
+    expect(
+      (await send('POST', '/api/roles', { name: 'admin', permissions: {} }))
+        .status
+    ).toBe(409)
+  })
+
+  test('refuses to change built-in roles', async () => {
+    const res = await send('PATCH', '/api/roles/admin', { description: 'x' })
+
+    expect(res.status).toBe(409)
+    expect(await res.json()).toMatchObject({
+      type: 'urn:problem:built-in-role',
+    })
+    expect((await send('DELETE', '/api/roles/user')).status).toBe(409)
+  })
+
+  test('returns 404 for unknown roles', async () => {
+    expect((await send('GET', '/api/roles/nope')).status).toBe(404)
+    expect((await send('DELETE', '/api/roles/nope')).status).toBe(404)
+  })
+})
+
+describe('role assignment', () => {
+  test('grants the permissions of every assigned role', async () => {
+    const user = await actingAs({}, 'user')
+    await send('POST', '/api/roles', {
+      name: 'support',
+      permissions: { user: ['list'] },
+    })
+
+    expect(await statusOf('/api/test/users', user)).toBe(403)
+
+    const res = await send('PUT', `/api/users/${user.user.id}/roles`, {
+      roles: ['user', 'support'],
+    })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      id: user.user.id,
+      roles: ['user', 'support'],
+    })
+
+    // Permission checks read roles from the database, not the session
+    expect(await statusOf('/api/test/users', user)).toBe(200)
+  })
+
+  test('applies permission changes immediately', async () => {
+    await send('POST', '/api/roles', {
+      name: 'reporter',
+      permissions: { dashboard: ['export'] },
+    })
+    const reporter = await actingAs({}, 'user,reporter')
+    expect(await statusOf('/api/test/exports', reporter)).toBe(200)
+
+    await send('PATCH', '/api/roles/reporter', { permissions: {} })
+
+    expect(await statusOf('/api/test/exports', reporter)).toBe(403)
+  })
+
+  test('picks up changes made elsewhere once the cache expires', async () => {
+    await send('POST', '/api/roles', { name: 'analyst', permissions: {} })
+    const analyst = await actingAs({}, 'analyst')
+    expect(await statusOf('/api/test/exports', analyst)).toBe(403)
+
+    // As if another replica had changed the role
+    const [{ id }] = await db
+      .select({ id: role.id })
+      .from(role)
+      .where(eq(role.name, 'analyst'))
+    await db
+      .insert(rolePermission)
+      .values({ roleId: id, resource: 'dashboard', action: 'export' })
+
+    expect(await statusOf('/api/test/exports', analyst)).toBe(403)
+    setSystemTime(Date.now() + 60_000)
+    expect(await statusOf('/api/test/exports', analyst)).toBe(200)
+  })
+
+  test('lets role guards match any of several roles', async () => {
+    const agent = await actingAs({}, 'user,support')
+
+    expect(await statusOf('/api/test/support', agent)).toBe(200)
+    expect(await statusOf('/api/test/support', member)).toBe(403)
+  })
+
+  test('lets role guards apply role changes at once', async () => {
+    const agent = await actingAs({}, 'user,support')
+    const demoted = await actingAs({}, 'admin')
+    expect(await statusOf('/api/test/support', agent)).toBe(200)
+    expect(await statusOf('/api/roles', demoted)).toBe(200)
+
+    await send('PUT', `/api/users/${agent.user.id}/roles`, { roles: ['user'] })
+    await send('PUT', `/api/users/${demoted.user.id}/roles`, {
+      roles: ['user'],
+    })
+
+    // Both sessions are still in their cookie cache
+    expect(await statusOf('/api/test/support', agent)).toBe(403)
+    expect(await statusOf('/api/roles', demoted)).toBe(403)
+  })
+
+  test('rejects unknown roles', async () => {
+    const res = await send('PUT', `/api/users/${member.user.id}/roles`, {
+      roles: ['user', 'ghost'],
+    })
+
+    expect(res.status).toBe(422)
+    expect(await res.json()).toMatchObject({
+      errors: [{ path: 'roles.1', message: 'Unknown role "ghost"' }],
+    })
+  })
+
+  test('refuses to delete roles still assigned', async () => {
+    await send('POST', '/api/roles', { name: 'temp', permissions: {} })
+    const temp = await actingAs({}, 'temp')
+
+    expect((await send('DELETE', '/api/roles/temp')).status).toBe(409)
+
+    await send('PUT', `/api/users/${temp.user.id}/roles`, { roles: ['user'] })
+    expect((await send('DELETE', '/api/roles/temp')).status).toBe(204)
+  })
+
+  test("doesn't assign roles deleted meanwhile", async () => {
+    await send('POST', '/api/roles', { name: 'fleeting', permissions: {} })
+    const user = await actingAs({}, 'user')
+
+    const [assigned, deleted] = await Promise.allSettled([
+      setUserRoles(user.user.id, ['user', 'fleeting']),
+      deleteRole('fleeting'),
+    ])
+
+    // Whichever comes second fails
+    expect([assigned.status, deleted.status]).toContain('rejected')
+    if (deleted.status === 'fulfilled') {
+      expect(await userRoles(user.user.id)).toEqual(['user'])
+    }
+  })
+})
@@ -0,0 +1,167 @@
+import { beforeAll, describe, expect, setSystemTime, test } from 'bun:test'
+
+import { and, asc, eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { auditLog } from '@/db/schema/audit-schema'
+import { user } from '@/db/schema/auth-schema'
+
+import { createRouter } from '@/lib/create-app'
+
+import { adminGuard, roleGuard } from '@/auth/auth-guard'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import {
+  actingAs,
+  CookieJar,
+  TEST_PASSWORD,
+  type TestSession,
+} from '../helpers/auth'
+
+const routes = createRouter()
+  .get('/admin', adminGuard(), (c) => c.text('ok'))
+  .get('/admin/strict', adminGuard({ requireSecondFactor: true }), (c) =>
+    c.text('ok')
+  )
+  .get('/billing', roleGuard('billing', { requireSecondFactor: true }), (c) =>
+    c.text('ok')
+  )
+
+let testApp: TestApp
+
+const post = (path: string, body: unknown, cookies: CookieJar) =>
+  testApp.request(`/api/auth${path}`, {
+    method: 'POST',
+    cookies,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+const statusOf = async (path: string, cookies: CookieJar) =>
+  (await testApp.request(path, { cookies })).status
+
+/**
+ * Turn on two-factor authentication and return its backup codes
+ * The TOTP confirmation step is skipped by enabling it directly
+ */
+const enableTwoFactor = async (session: TestSession): Promise<string[]> => {
+  const res = await post(
+    '/two-factor/enable',
+    { password: TEST_PASSWORD },
+    session.cookies
+  )
+  expect(res.status).toBe(200)
+  await db
+    .update(user)
+    .set({ twoFactorEnabled: true })
+    .where(eq(user.id, session.user.id))
+  return ((await res.json()) as { backupCodes: string[] }).backupCodes
+}
+
+/**
+ * Sign in with the password, then finish with a backup code
+ */
+const signInWithBackupCode = async (email: string, code: string) => {
+  const cookies = new CookieJar()
+  const res = await post(
+    '/sign-in/email',
+    { email, password: TEST_PASSWORD },
+    cookies
+  )
+  expect(await res.json()).toMatchObject({ twoFactorRedirect: true })
+
+  const verified = await post(
+    '/two-factor/verify-backup-code',
+    { code },
+    cookies
+  )
+  expect(verified.status).toBe(200)
+  return cookies
+}
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+})
+
+describe('requireSecondFactor', () => {
+  test('rejects password-only sessions', async () => {
+    const admin = await actingAs({}, 'admin')
+
+    const res = await testApp.request('/api/test/admin/strict', {
+      cookies: admin.cookies,
+    })
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({
+      type: 'urn:problem:second-factor-required',
+    })
+    expect(await statusOf('/api/test/admin', admin.cookies)).toBe(200)
+  })
+
+  test('accepts sessions that passed a second factor', async () => {
+    const admin = await actingAs({}, 'admin')
+    const [code] = await enableTwoFactor(admin)
+
+    const cookies = await signInWithBackupCode(admin.user.email, code)
+
+    expect(await statusOf('/api/test/admin/strict', cookies)).toBe(200)
+  })
+
+  test('audits the sign-in once the second factor passed', async () => {
+    const member = await actingAs()
+    const [code] = await enableTwoFactor(member)
+
+    await signInWithBackupCode(member.user.email, code)
+
+    const signIns = await db
+      .select({ metadata: auditLog.metadata })
+      .from(auditLog)
+      .where(
+        and(
+          eq(auditLog.action, 'user.signed_in'),
+          eq(auditLog.actorId, member.user.id)
+        )
+      )
+      .orderBy(asc(auditLog.id))
+    expect(signIns.map((entry) => entry.metadata?.method)).toEqual([
+      '/sign-in/email',
+      '/two-factor/verify-backup-code',
+    ])
+  })
+
+  test('checks the role before the second factor', async () => {
+    const member = await actingAs({}, 'user')
+    const [code] = await enableTwoFactor(member)
+    const cookies = await signInWithBackupCode(member.user.email, code)
+
+    const res = await testApp.request('/api/test/admin/strict', { cookies })
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({ type: 'urn:problem:forbidden' })
+  })
+
+  test('applies to role guards', async () => {
+    const clerk = await actingAs({}, 'user,billing')
+    expect(await statusOf('/api/test/billing', clerk.cookies)).toBe(403)
+
+    const [code] = await enableTwoFactor(clerk)
+    const cookies = await signInWithBackupCode(clerk.user.email, code)
+
+    expect(await statusOf('/api/test/billing', cookies)).toBe(200)
+  })
+
+  test('expires with the session freshness', async () => {
+    const admin = await actingAs({}, 'admin')
+    const [code] = await enableTwoFactor(admin)
+    const cookies = await signInWithBackupCode(admin.user.email, code)
+
+    // freshAge is one day
+    setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000)
+    try {
+      expect(await statusOf('/api/test/admin/strict', cookies)).toBe(403)
+      expect(await statusOf('/api/test/admin', cookies)).toBe(200)
+    } finally {
+      setSystemTime()
+    }
+  })
+})
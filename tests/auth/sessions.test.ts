@@ -0,0 +1,165 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import {
+  actingAs,
+  CookieJar,
+  signIn,
+  TEST_PASSWORD,
+  type TestSession,
+} from '../helpers/auth'
+
+interface SessionItem {
+  id: string
+  current: boolean
+  device: { browser: string | null; os: string | null; type: string | null }
+}
+
+const FIREFOX_ON_ANDROID =
+  'Mozilla/5.0 (Android 14; Mobile; rv:128.0) Gecko/128.0 Firefox/128.0'
+
+let testApp: TestApp
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+})
+
+const send = (
+  path: string,
+  session: TestSession,
+  { method = 'GET', body }: { method?: string; body?: unknown } = {}
+) =>
+  testApp.request(path, {
+    method,
+    cookies: session.cookies,
+    ...(body === undefined
+      ? {}
+      : {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+  })
+
+const sessionsOf = async (session: TestSession, path = '/api/me/sessions') =>
+  (await (await send(path, session)).json()) as SessionItem[]
+
+/**
+ * Sign in again through the app, from another device
+ */
+const signInFrom = async (
+  email: string,
+  userAgent: string
+): Promise<CookieJar> => {
+  const cookies = new CookieJar()
+  const res = await testApp.request('/api/auth/sign-in/email', {
+    method: 'POST',
+    cookies,
+    headers: { 'Content-Type': 'application/json', 'User-Agent': userAgent },
+    body: JSON.stringify({ email, password: TEST_PASSWORD }),
+  })
+  expect(res.status).toBe(200)
+  return cookies
+}
+
+describe('/api/me/sessions', () => {
+  test('lists sessions with their device, marking the current one', async () => {
+    const member = await actingAs()
+    await signInFrom(member.user.email, FIREFOX_ON_ANDROID)
+
+    const sessions = await sessionsOf(member)
+
+    expect(sessions).toHaveLength(2)
+    expect(sessions.filter((item) => item.current)).toHaveLength(1)
+    expect(sessions.find((item) => !item.current)?.device).toEqual({
+      browser: 'Firefox',
+      os: 'Android',
+      type: 'mobile',
+    })
+  })
+
+  test('revoked sessions stop working despite the cookie cache', async () => {
+    const member = await actingAs()
+    const phone = await signInFrom(member.user.email, FIREFOX_ON_ANDROID)
+    // Read once so the session is served from the cookie cache
+    expect(
+      (await send('/api/me/sessions', { ...member, cookies: phone })).status
+    ).toBe(200)
+
+    const other = (await sessionsOf(member)).find((item) => !item.current)
+    const res = await send(`/api/me/sessions/${other?.id}`, member, {
+      method: 'DELETE',
+    })
+
+    expect(res.status).toBe(204)
+    expect(
+      (await send('/api/me/sessions', { ...member, cookies: phone })).status
+    ).toBe(401)
+    expect(await sessionsOf(member)).toHaveLength(1)
+  })
+
+  test('signs out every other session', async () => {
+    const member = await actingAs()
+    await signIn(member.user.email)
+    await signIn(member.user.email)
+
+    const res = await send('/api/me/sessions', member, { method: 'DELETE' })
+
+    expect(((await res.json()) as { revoked: string[] }).revoked).toHaveLength(
+      2
+    )
+    const [remaining] = await sessionsOf(member)
+    expect(remaining.current).toBe(true)
+  })
+
+  test("can't revoke someone else's session", async () => {
+    const member = await actingAs()
+    const [theirs] = await sessionsOf(await actingAs())
+
+    const res = await send(`/api/me/sessions/${theirs.id}`, member, {
+      method: 'DELETE',
+    })
+
+    expect(res.status).toBe(404)
+  })
+
+  test('changing the password signs other sessions out', async () => {
+    const member = await actingAs()
+    const laptop = await signIn(member.user.email)
+
+    const res = await send('/api/auth/change-password', member, {
+      method: 'POST',
+      body: {
+        currentPassword: TEST_PASSWORD,
+        newPassword: 'new-password-5678',
+      },
+    })
+
+    expect(res.status).toBe(200)
+    expect((await send('/api/me/sessions', laptop)).status).toBe(401)
+    expect((await send('/api/me/sessions', member)).status).toBe(200)
+  })
+})
+
+describe('/api/users/:id/sessions', () => {
+  test('lets admins list and revoke sessions of any user', async () => {
+    const admin = await actingAs({}, 'admin')
+    const member = await actingAs()
+    const path = `/api/users/${member.user.id}/sessions`
+
+    const sessions = await sessionsOf(admin, path)
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0].current).toBe(false)
+
+    const res = await send(path, admin, { method: 'DELETE' })
+    expect(res.status).toBe(200)
+    expect((await send('/api/me/sessions', member)).status).toBe(401)
+  })
+
+  test('is only available to admins', async () => {
+    const member = await actingAs()
+
+    const res = await send(`/api/users/${member.user.id}/sessions`, member)
+
+    expect(res.status).toBe(403)
+  })
+})
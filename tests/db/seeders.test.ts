@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { account, user } from '@/db/schema/auth-schema'
+import { runSeeds } from '@/db/seeders'
+import { userFactory } from '@/db/seeders/factory'
+import { SEED_USERS } from '@/db/seeders/seeds/users'
+
+import { migrateTestSchema } from '../helpers/db'
+
+const ADMIN_EMAIL = 'seed-admin@example.com'
+
+beforeAll(async () => {
+  await migrateTestSchema()
+  process.env.SEED_ADMIN_EMAIL = ADMIN_EMAIL
+  process.env.SEED_ADMIN_PASSWORD = 'seed-password-1234'
+})
+
+afterAll(() => {
+  delete process.env.SEED_ADMIN_EMAIL
+  delete process.env.SEED_ADMIN_PASSWORD
+})
+
+const emails = async () =>
+  (await db.select({ email: user.email }).from(user))
+    .map(({ email }) => email)
+    .sort()
+
+/**
+ * Run `db:reset` in its own process against this file's schema
+ */
+const reset = async (env: Record<string, string>, ...args: string[]) => {
+  const proc = Bun.spawn(
+    [process.execPath, './src/db/seeders/reset.ts', ...args],
+    {
+      env: { ...process.env, ...env },
+      stdout: 'pipe',
+      stderr: 'pipe',
+    }
+  )
+  const output =
+    (await new Response(proc.stdout).text()) +
+    (await new Response(proc.stderr).text())
+  return { exitCode: await proc.exited, output }
+}
+
+describe('seeds', () => {
+  test('can run again without duplicating anything', async () => {
+    await runSeeds('test')
+    const seeded = await emails()
+    const accounts = await db.$count(account)
+
+    await runSeeds('test')
+
+    expect(seeded).toEqual(
+      [ADMIN_EMAIL, ...SEED_USERS.map(({ email }) => email)].sort()
+    )
+    expect(await emails()).toEqual(seeded)
+    expect(await db.$count(account)).toBe(accounts)
+  })
+
+  test('add the admin role to the roles of an existing user', async () => {
+    await runSeeds('test')
+    await db
+      .update(user)
+      .set({ role: 'editor' })
+      .where(eq(user.email, ADMIN_EMAIL))
+
+    await runSeeds('test')
+    await runSeeds('test')
+
+    const [admin] = await db
+      .select({ role: user.role })
+      .from(user)
+      .where(eq(user.email, ADMIN_EMAIL))
+    expect(admin.role).toBe('editor,admin')
+  })
+})
+
+describe('db:reset', () => {
+  test('refuses to run in production', async () => {
+    await runSeeds('test')
+
+    const { exitCode, output } = await reset({ NODE_ENV: 'production' })
+
+    expect(exitCode).toBe(1)
+    expect(output).toContain('Refusing to reset the database')
+    expect(await emails()).toContain(ADMIN_EMAIL)
+  })
+
+  test('empties every table and seeds again with --seed', async () => {
+    await userFactory.create(db, { email: 'extra@example.com' })
+
+    const { exitCode } = await reset({ NODE_ENV: 'test' }, '--seed')
+
+    expect(exitCode).toBe(0)
+    expect(await emails()).not.toContain('extra@example.com')
+    expect(await emails()).toContain(ADMIN_EMAIL)
+  })
+})
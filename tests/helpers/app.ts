@@ -0,0 +1,54 @@
+import type { Hono, Schema } from 'hono'
+
+import type { AppEnv } from '@/lib/create-app'
+
+import app from '@/app'
+
+import type { CookieJar } from './auth'
+import { migrateTestSchema } from './db'
+
+export interface TestRequestInit extends RequestInit {
+  /**
+   * Sent as the `Cookie` header and updated from the response
+   */
+  cookies?: CookieJar
+}
+
+export interface TestApp {
+  app: typeof app
+  request: (path: string, init?: TestRequestInit) => Promise<Response>
+}
+
+/**
+ * The full application, with its global middleware and error handling,
+ * backed by this test file's own Postgres schema
+ *
+ * Call it once per file: `routes` are mounted under `/api/test` and Hono
+ * can't add routes once it has served a request.
+ *
+ * @example
+ * ```ts
+ * const testApp = await createTestApp(
+ *   createRouter().get('/admin', adminGuard(), (c) => c.text('ok'))
+ * )
+ * const res = await testApp.request('/api/test/admin')
+ * ```
+ */
+export async function createTestApp(
+  routes?: Hono<AppEnv, Schema, string>
+): Promise<TestApp> {
+  await migrateTestSchema()
+  if (routes) app.route('/api/test', routes)
+
+  return {
+    app,
+    async request(path, { cookies, ...init } = {}) {
+      const headers = new Headers(init.headers)
+      if (cookies?.header) headers.set('Cookie', cookies.header)
+
+      const response = await app.request(path, { ...init, headers })
+      cookies?.store(response)
+      return response
+    },
+  }
+}
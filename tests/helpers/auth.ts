@@ -0,0 +1,140 @@
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { user } from '@/db/schema/auth-schema'
+import { createUserWithPassword, userFactory } from '@/db/seeders/factory'
+
+import { auth } from '@/lib/auth'
+
+import { getEnv } from '@/env'
+
+export const TEST_PASSWORD = 'test-password-1234'
+
+type User = typeof user.$inferSelect
+
+/**
+ * Cookies set by responses, sent back with later requests
+ * Cookies cleared by the server (empty or `Max-Age=0`) are dropped
+ */
+export class CookieJar {
+  private cookies = new Map<string, string>()
+
+  store(response: Response): void {
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = cookie.split(';')
+      const separator = pair.indexOf('=')
+      const name = pair.slice(0, separator).trim()
+      const value = pair.slice(separator + 1).trim()
+      const expired = attributes.some((attribute) =>
+        /^max-age=0$/i.test(attribute.trim())
+      )
+
+      if (!value || expired) {
+        this.cookies.delete(name)
+      } else {
+        this.cookies.set(name, value)
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.cookies.get(name)
+  }
+
+  /**
+   * Value for a `Cookie` request header, empty when the jar is
+   */
+  get header(): string {
+    return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join(
+      '; '
+    )
+  }
+}
+
+export interface TestSession {
+  user: User
+  cookies: CookieJar
+}
+
+/**
+ * POST to a Better Auth endpoint through `auth.handler`, bypassing the app
+ * middleware so sign-ins don't count against rate limits
+ */
+const callAuth = async (
+  path: string,
+  body: Record<string, unknown>,
+  cookies = new CookieJar()
+): Promise<CookieJar> => {
+  const response = await auth.handler(
+    new Request(new URL(`/api/auth${path}`, getEnv().BETTER_AUTH_URL).href, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookies.header },
+      body: JSON.stringify(body),
+    })
+  )
+  if (!response.ok) {
+    throw new Error(
+      `POST /api/auth${path} failed with ${response.status}: ${await response.text()}`
+    )
+  }
+
+  cookies.store(response)
+  return cookies
+}
+
+const findUser = async (email: string): Promise<User> => {
+  const [row] = await db.select().from(user).where(eq(user.email, email))
+  return row
+}
+
+/**
+ * Register a user with email and password and keep its session cookies
+ *
+ * @example
+ * ```ts
+ * const { user, cookies } = await signUp({ name: 'Ada' })
+ * ```
+ */
+export async function signUp(
+  values: { name?: string; email?: string; password?: string } = {}
+): Promise<TestSession> {
+  const { name, email } = { ...userFactory.build(), ...values }
+  const cookies = await callAuth('/sign-up/email', {
+    name,
+    email,
+    password: values.password ?? TEST_PASSWORD,
+  })
+  return { user: await findUser(email), cookies }
+}
+
+/**
+ * Sign an existing user in and keep its session cookies
+ */
+export async function signIn(
+  email: string,
+  password = TEST_PASSWORD
+): Promise<TestSession> {
+  const cookies = await callAuth('/sign-in/email', { email, password })
+  return { user: await findUser(email), cookies }
+}
+
+/**
+ * Create a user with the given role and sign it in
+ *
+ * @example
+ * ```ts
+ * const admin = await actingAs({ name: 'Ada' }, 'admin')
+ * await testApp.request('/api/users', { cookies: admin.cookies })
+ * ```
+ */
+export async function actingAs(
+  values: Partial<typeof user.$inferInsert> = {},
+  role = 'user'
+): Promise<TestSession> {
+  const created = await createUserWithPassword(db, {
+    ...values,
+    role,
+    password: TEST_PASSWORD,
+  })
+  return signIn(created.email)
+}
@@ -0,0 +1,50 @@
+import { readMigrationFiles } from 'drizzle-orm/migrator'
+
+import { MIGRATIONS_FOLDER, pool } from '@/db'
+
+const schema = process.env.TEST_DB_SCHEMA
+
+let migrated: Promise<void> | undefined
+
+/**
+ * Create this file's schema and apply the generated migrations to it
+ * Runs once per test file, later calls wait for the first one
+ */
+export function migrateTestSchema(): Promise<void> {
+  if (!schema) {
+    throw new Error('TEST_DB_SCHEMA is not set, run tests with `bun run test`')
+  }
+
+  migrated ??= (async () => {
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query(`CREATE SCHEMA "${schema}"`)
+      for (const migration of readMigrationFiles({
+        migrationsFolder: MIGRATIONS_FOLDER,
+      })) {
+        for (const statement of migration.sql) {
+          // drizzle-kit qualifies foreign keys with "public"
+          await client.query(statement.replaceAll('"public".', `"${schema}".`))
+        }
+      }
+      await client.query('COMMIT')
+    } catch (err) {
+      await client.query('ROLLBACK')
+      throw err
+    } finally {
+      client.release()
+    }
+  })()
+
+  return migrated
+}
+
+/**
+ * Drop this file's schema, called after all tests by tests/setup.ts
+ */
+export async function dropTestSchema(): Promise<void> {
+  if (!migrated) return
+  await migrated.catch(() => undefined)
+  await pool.query(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`)
+}
@@ -0,0 +1,19 @@
+import type { RedisClient } from 'bun'
+import RedisMock from 'ioredis-mock'
+
+type Command = (...args: string[]) => Promise<unknown>
+
+/**
+ * In-memory stand-in for Bun's `RedisClient`, covering the calls made by
+ * `RedisStore`, Lua scripts included
+ */
+export function createRedisClient(): RedisClient {
+  const redis = new RedisMock()
+  const commands = redis as unknown as Record<string, Command>
+
+  return {
+    get: (key: string) => redis.get(key),
+    send: (command: string, args: string[]) =>
+      commands[command.toLowerCase()].apply(redis, args),
+  } as unknown as RedisClient
+}
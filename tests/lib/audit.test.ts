@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test'
+
+import { auditLogToCsv, diffChanges, type AuditEntry } from '@/lib/audit'
+
+const entry = (values: Partial<AuditEntry>): AuditEntry => ({
+  id: '0190b6d2-0000-7000-8000-000000000000',
+  actorId: null,
+  impersonatorId: null,
+  action: 'user.signed_in',
+  targetType: null,
+  targetId: null,
+  changes: null,
+  metadata: null,
+  ipAddress: null,
+  userAgent: null,
+  requestId: null,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...values,
+})
+
+describe('diffChanges', () => {
+  test('keeps only the fields that differ', () => {
+    expect(
+      diffChanges(
+        { role: 'user', banned: false, scopes: { user: ['list'] } },
+        { role: 'admin', banned: false, scopes: { user: ['list'] } }
+      )
+    ).toEqual({ role: { before: 'user', after: 'admin' } })
+  })
+
+  test('treats missing sides as null and returns null without changes', () => {
+    expect(diffChanges(null, { name: 'Ada' })).toEqual({
+      name: { before: null, after: 'Ada' },
+    })
+    expect(diffChanges({ name: 'Ada' }, { name: 'Ada' })).toBeNull()
+  })
+})
+
+describe('auditLogToCsv', () => {
+  test('quotes values and writes objects as JSON', () => {
+    const csv = auditLogToCsv([
+      entry({
+        changes: { role: { before: 'user', after: 'admin' } },
+        userAgent: 'Mozilla/5.0 (X11, Linux)',
+      }),
+    ])
+
+    const [, row] = csv.split('\r\n')
+    expect(row).toBe(
+      '0190b6d2-0000-7000-8000-000000000000,2026-01-01T00:00:00.000Z,user.signed_in,,,,,' +
+        '"{""role"":{""before"":""user"",""after"":""admin""}}",,,"Mozilla/5.0 (X11, Linux)",'
+    )
+  })
+
+  test("doesn't let spreadsheets run values as formulas", () => {
+    const csv = auditLogToCsv([entry({ userAgent: '=HYPERLINK("x")' })])
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`)
+  })
+})
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { isBreachedPassword } from '@/lib/breached-passwords'
+
+const dir = mkdtempSync(join(tmpdir(), 'breached-'))
+const passwords = Array.from({ length: 2000 }, (_, index) => `leaked-${index}`)
+
+beforeAll(() => {
+  const lines = passwords
+    .map(
+      (password, index) =>
+        `${new Bun.CryptoHasher('sha1').update(password).digest('hex').toUpperCase()}:${index + 1}`
+    )
+    .sort()
+  process.env.BREACHED_PASSWORDS_FILE = join(dir, 'pwned.txt')
+  writeFileSync(process.env.BREACHED_PASSWORDS_FILE, lines.join('\n'))
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true })
+})
+
+describe('isBreachedPassword', () => {
+  test('finds every password of the file', async () => {
+    for (const password of passwords) {
+      expect(await isBreachedPassword(password)).toBe(true)
+    }
+  })
+
+  test('misses passwords that are not in it', async () => {
+    for (let index = 0; index < 200; index++) {
+      expect(await isBreachedPassword(`safe-${index}`)).toBe(false)
+    }
+  })
+
+  test('is skipped without a file', async () => {
+    delete process.env.BREACHED_PASSWORDS_FILE
+
+    expect(await isBreachedPassword('leaked-0')).toBe(false)
+  })
+})
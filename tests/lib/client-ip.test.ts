@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+
+import { clientIp } from '@/lib/client-ip'
+import { createRouter } from '@/lib/create-app'
+
+const app = createRouter().get('/ip', (c) => c.json({ ip: clientIp(c) }))
+
+/**
+ * Client IP resolved for a request coming from `peer` on the socket
+ */
+const resolve = async (peer: string, headers: Record<string, string> = {}) => {
+  const server = { requestIP: () => ({ address: peer }) }
+  const res = await app.request('/ip', { headers }, server)
+  return ((await res.json()) as { ip: string | null }).ip
+}
+
+const previous = process.env.TRUSTED_PROXIES
+
+beforeAll(() => {
+  process.env.TRUSTED_PROXIES = '10.0.0.0/8,2001:db8:ffff::1'
+})
+
+afterAll(() => {
+  if (previous === undefined) delete process.env.TRUSTED_PROXIES
+  else process.env.TRUSTED_PROXIES = previous
+})
+
+describe('clientIp', () => {
+  test('ignores the headers of untrusted peers', async () => {
+    expect(
+      await resolve('203.0.113.7', {
+        'X-Forwarded-For': '198.51.100.1',
+        Forwarded: 'for=198.51.100.2',
+        'X-Real-IP': '198.51.100.3',
+      })
+    ).toBe('203.0.113.7')
+  })
+
+  test('ignores spoofed entries left of the first untrusted hop', async () => {
+    // The client sent "1.1.1.1" itself, the proxy appended its real address
+    expect(
+      await resolve('10.0.0.1', { 'X-Forwarded-For': '1.1.1.1, 198.51.100.9' })
+    ).toBe('198.51.100.9')
+  })
+
+  test('walks right to left across trusted hops', async () => {
+    expect(
+      await resolve('10.0.0.1', {
+        'X-Forwarded-For': '1.1.1.1, 198.51.100.9, 10.1.2.3, 10.4.5.6',
+      })
+    ).toBe('198.51.100.9')
+  })
+
+  test('stops at the last proxy when a hop is unreadable', async () => {
+    expect(
+      await resolve('10.0.0.1', { 'X-Forwarded-For': '198.51.100.9, junk' })
+    ).toBe('10.0.0.1')
+  })
+
+  test('reads bracketed IPv6 with a port from Forwarded', async () => {
+    expect(
+      await resolve('10.0.0.1', {
+        Forwarded: 'for="[2001:db8::1]:4711";proto=https, for=10.2.2.2',
+        'X-Forwarded-For': '198.51.100.9',
+      })
+    ).toBe('2001:db8::1')
+  })
+
+  test('unwraps IPv4-mapped peers before checking them', async () => {
+    expect(
+      await resolve('::ffff:10.0.0.1', { 'X-Forwarded-For': '198.51.100.9' })
+    ).toBe('198.51.100.9')
+    expect(await resolve('::ffff:203.0.113.7')).toBe('203.0.113.7')
+  })
+
+  test('trusts single IPv6 proxies', async () => {
+    expect(
+      await resolve('2001:db8:ffff::1', { 'X-Real-IP': '198.51.100.9' })
+    ).toBe('198.51.100.9')
+    expect(
+      await resolve('2001:db8:ffff::2', { 'X-Real-IP': '198.51.100.9' })
+    ).toBe('2001:db8:ffff::2')
+  })
+
+  test('returns null without a socket address', async () => {
+    const res = await app.request('/ip', {
+      headers: { 'X-Forwarded-For': '198.51.100.9' },
+    })
+
+    expect(await res.json()).toEqual({ ip: null })
+  })
+})
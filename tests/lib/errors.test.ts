@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test'
+
+import { ConflictError, fromDatabaseError } from '@/lib/errors'
+
+/**
+ * Error the way Drizzle throws it, wrapping the driver's
+ */
+const queryError = (code: string) =>
+  new Error('Failed query', {
+    cause: Object.assign(new Error('duplicate key value'), { code }),
+  })
+
+describe('fromDatabaseError', () => {
+  test('turns unique violations into conflicts keeping the cause', () => {
+    const err = queryError('23505')
+
+    const mapped = fromDatabaseError(err)
+
+    expect(mapped).toBeInstanceOf(ConflictError)
+    expect(mapped?.status).toBe(409)
+    expect(mapped?.cause).toBe(err)
+  })
+
+  test('turns other constraint violations into 422s', () => {
+    expect(fromDatabaseError(queryError('23503'))).toMatchObject({
+      status: 422,
+      code: 'invalid-reference',
+    })
+    expect(fromDatabaseError(queryError('23514'))).toMatchObject({
+      status: 422,
+      code: 'constraint-violation',
+    })
+  })
+
+  test('leaves other errors alone', () => {
+    expect(fromDatabaseError(queryError('40001'))).toBeUndefined()
+    expect(fromDatabaseError(new Error('boom'))).toBeUndefined()
+  })
+})
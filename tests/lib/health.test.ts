@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+
+import { registerHealthCheck } from '@/lib/health'
+import { logger } from '@/lib/logger'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+
+let testApp: TestApp
+
+beforeAll(async () => {
+  testApp = await createTestApp()
+  registerHealthCheck('broken', () => {
+    throw new Error('connect ECONNREFUSED 10.0.0.5:6379')
+  })
+})
+
+afterAll(() => {
+  registerHealthCheck('broken', () => undefined)
+  process.env.NODE_ENV = 'test'
+})
+
+describe('GET /api/health/ready', () => {
+  test('logs failures and leaves their details out', async () => {
+    const write = spyOn(logger, 'write')
+
+    const res = await testApp.request('/api/health/ready')
+
+    expect(res.status).toBe(503)
+    const { checks } = (await res.json()) as {
+      checks: Record<string, { status: string; error?: string }>
+    }
+    expect(checks.broken.status).toBe('error')
+    expect(checks.broken).not.toHaveProperty('error')
+    expect(write).toHaveBeenCalledWith('warn', 'Readiness check failed', {
+      check: 'broken',
+      error: 'connect ECONNREFUSED 10.0.0.5:6379',
+    })
+    write.mockRestore()
+  })
+
+  test('details failures in development', async () => {
+    process.env.NODE_ENV = 'development'
+
+    const res = await testApp.request('/api/health/ready')
+
+    const { checks } = (await res.json()) as {
+      checks: Record<string, { error?: string }>
+    }
+    expect(checks.broken.error).toBe('connect ECONNREFUSED 10.0.0.5:6379')
+  })
+})
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+
+import { createRouter } from '@/lib/create-app'
+import { errorHandler } from '@/lib/errors'
+import { MemoryTransport } from '@/lib/log-transports'
+import { combinedLogger, Logger } from '@/lib/logger'
+import { setSpanProcessor, type Span } from '@/lib/tracing'
+
+const transport = new MemoryTransport()
+
+const logger = new Logger({
+  level: 'debug',
+  format: 'json',
+  transports: [transport],
+})
+
+const app = createRouter()
+app.use(combinedLogger({ logger }))
+app.post('/echo', async (c) => {
+  c.header('Set-Cookie', 'session=secret')
+  return c.json(await c.req.json())
+})
+
+const logged = (message: string) =>
+  transport.entries.find((entry) => entry.message === message)?.data
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  app.request('/echo', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+
+beforeEach(() => transport.clear())
+
+describe('combinedLogger redaction', () => {
+  test('redacts sensitive body fields at any depth', async () => {
+    await post({
+      email: 'ada@example.com',
+      password: 'hunter2',
+      profile: { newPassword: 'hunter3', accessToken: 'abc' },
+      integrations: [{ name: 'stripe', apiKey: 'sk_live_123' }],
+      clientSecret: 'shh',
+      CreditCardNumber: '4242424242424242',
+    })
+
+    expect(logged('Request Body')).toEqual({
+      email: 'ada@example.com',
+      password: '***REDACTED***',
+      profile: { newPassword: '***REDACTED***', accessToken: '***REDACTED***' },
+      integrations: [{ name: 'stripe', apiKey: '***REDACTED***' }],
+      clientSecret: '***REDACTED***',
+      CreditCardNumber: '***REDACTED***',
+    })
+  })
+
+  test('leaves the body intact for the handler', async () => {
+    const res = await post({ password: 'hunter2' })
+
+    expect(await res.json()).toEqual({ password: 'hunter2' })
+  })
+
+  test('never logs credentials headers', async () => {
+    await post(
+      {},
+      {
+        Authorization: 'Bearer secret',
+        Cookie: 'session=secret',
+        'X-API-Key': 'htz_secret',
+        'X-Trace': '1',
+      }
+    )
+
+    const headers = logged('Request Headers') as Record<string, string>
+    expect(headers['x-trace']).toBe('1')
+    expect(headers).not.toHaveProperty('authorization')
+    expect(headers).not.toHaveProperty('cookie')
+    expect(headers).not.toHaveProperty('x-api-key')
+    const responseHeaders = logged('Response Headers') as Record<string, string>
+    expect(responseHeaders['content-type']).toStartWith('application/json')
+    expect(responseHeaders).not.toHaveProperty('set-cookie')
+  })
+
+  test('does not read bodies below debug level', async () => {
+    const quiet = new Logger({
+      level: 'info',
+      format: 'json',
+      transports: [transport],
+    })
+    const quietApp = createRouter()
+    quietApp.use(combinedLogger({ logger: quiet }))
+    quietApp.post('/echo', (c) => c.text('ok'))
+
+    await quietApp.request('/echo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'hunter2' }),
+    })
+
+    expect(transport.entries.map((entry) => entry.message)).toEqual([
+      'Incoming request',
+      'Request completed',
+    ])
+  })
+})
+
+describe('combinedLogger errors', () => {
+  test('are logged and recorded on the span once handled by onError', async () => {
+    const ended: Span[] = []
+    setSpanProcessor({ onEnd: (span) => ended.push(span) })
+    const failing = createRouter()
+    failing.use(combinedLogger({ logger }))
+    failing.get('/boom', () => {
+      throw new Error('boom')
+    })
+    failing.onError(errorHandler)
+
+    const res = await failing.request('/boom')
+
+    expect(res.status).toBe(500)
+    expect(res.headers.get('X-Request-ID')).toStartWith('TRX-')
+    const messages = transport.entries
+      .filter((entry) => entry.level === 'error')
+      .map((entry) => entry.message)
+    expect(messages).toEqual(expect.arrayContaining(['boom', 'Request failed']))
+    const [span] = ended
+    expect(span.toOtlp().status).toMatchObject({ message: 'boom' })
+    expect(span.toOtlp().events[0].name).toBe('exception')
+  })
+
+  test('are not reported for client errors', async () => {
+    const app = createRouter()
+    app.use(combinedLogger({ logger }))
+    app.get('/missing', (c) => c.text('nope', 404))
+
+    await app.request('/missing')
+
+    expect(
+      transport.entries.find((entry) => entry.message === 'Request completed')
+    ).toMatchObject({ level: 'info', status: 404 })
+  })
+})
+
+describe('combinedLogger pretty lines', () => {
+  const lines = async (colors: boolean) => {
+    const pretty = new MemoryTransport()
+    const app = createRouter()
+    app.use(
+      combinedLogger({
+        logger: new Logger({
+          format: 'pretty',
+          level: 'info',
+          colors,
+          transports: [pretty],
+        }),
+      })
+    )
+    app.get('/ok', (c) => c.text('ok'))
+    await app.request('/ok')
+    return pretty.lines
+  }
+
+  test('leave colors out when they are off', async () => {
+    const plain = await lines(false)
+
+    expect(plain).toHaveLength(2)
+    expect(plain[0]).toContain('[INCOMING] GET /ok')
+    expect(plain.join('')).not.toContain('\x1b[')
+  })
+
+  test('are colored when they are on', async () => {
+    expect((await lines(true)).join('')).toContain('\x1b[')
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  setSystemTime,
+  spyOn,
+  test,
+} from 'bun:test'
+
+import { eq } from 'drizzle-orm'
+
+import db from '@/db'
+import { mailOutbox } from '@/db/schema/mail-schema'
+
+import { logger } from '@/lib/logger'
+import { MemoryMailTransport } from '@/lib/mail-transports'
+import {
+  getMailTransport,
+  processOutbox,
+  purgeOutbox,
+  sendMail,
+} from '@/lib/mailer'
+
+import { migrateTestSchema } from '../helpers/db'
+
+const transport = getMailTransport() as MemoryMailTransport
+
+const outboxFor = async (to: string) => {
+  const [row] = await db.select().from(mailOutbox).where(eq(mailOutbox.to, to))
+  return row
+}
+
+beforeAll(async () => {
+  await migrateTestSchema()
+})
+
+afterEach(() => {
+  setSystemTime()
+  transport.clear()
+})
+
+describe('sendMail', () => {
+  test('queues the rendered template until the outbox is processed', async () => {
+    await sendMail('reset-password', 'ada@example.com', {
+      name: 'Ada',
+      url: 'http://localhost:3000/reset',
+    })
+    expect(transport.messages).toHaveLength(0)
+
+    expect(await processOutbox()).toBe(1)
+
+    expect(transport.last('ada@example.com')).toMatchObject({
+      from: 'honotreez <no-reply@localhost>',
+      subject: 'Reset your password',
+      text: expect.stringContaining('http://localhost:3000/reset'),
+    })
+    expect(await outboxFor('ada@example.com')).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      sentAt: expect.any(Date),
+      text: '',
+      html: null,
+    })
+    expect(await processOutbox()).toBe(0)
+  })
+
+  test('escapes values in the HTML body', async () => {
+    await sendMail('verify-email', 'mallory@example.com', {
+      name: '<script>alert(1)</script>',
+      url: 'http://localhost:3000/verify?a=1&b=2',
+    })
+    await processOutbox()
+
+    const { html } = transport.last('mallory@example.com')!
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+    expect(html).toContain('href="http://localhost:3000/verify?a=1&amp;b=2"')
+  })
+})
+
+describe('processOutbox', () => {
+  test('retries failed deliveries later', async () => {
+    const send = spyOn(transport, 'send').mockRejectedValueOnce(
+      new Error('Connection refused')
+    )
+    await sendMail('verify-email', 'grace@example.com', {
+      name: 'Grace',
+      url: 'http://localhost:3000/verify',
+    })
+
+    expect(await processOutbox()).toBe(0)
+    expect(await outboxFor('grace@example.com')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Connection refused',
+    })
+
+    // Not due before the retry delay
+    expect(await processOutbox()).toBe(0)
+    setSystemTime(Date.now() + 60_000)
+    expect(await processOutbox()).toBe(1)
+    expect(transport.last('grace@example.com')).toBeDefined()
+    send.mockRestore()
+  })
+
+  test('gives up after the last attempt', async () => {
+    const send = spyOn(transport, 'send').mockRejectedValue(
+      new Error('Mailbox unavailable')
+    )
+    const write = spyOn(logger, 'write').mockImplementation(() => {})
+    await sendMail('verify-email', 'linus@example.com', {
+      name: 'Linus',
+      url: 'http://localhost:3000/verify',
+    })
+
+    let now = Date.now()
+    for (let attempt = 0; attempt < 6; attempt++) {
+      await processOutbox()
+      now += 2 * 60 * 60 * 1000
+      setSystemTime(now)
+    }
+
+    expect(send).toHaveBeenCalledTimes(5)
+    expect(await outboxFor('linus@example.com')).toMatchObject({
+      status: 'failed',
+      attempts: 5,
+      text: '',
+    })
+    expect(write).toHaveBeenLastCalledWith(
+      'error',
+      'Mail delivery failed',
+      expect.objectContaining({ template: 'verify-email', attempts: 5 })
+    )
+    send.mockRestore()
+    write.mockRestore()
+  })
+})
+
+describe('purgeOutbox', () => {
+  test('deletes sent and failed messages past the retention period', async () => {
+    const data = { name: 'Ada', url: 'http://localhost:3000/verify' }
+    await sendMail('verify-email', 'sent@example.com', data)
+    await processOutbox()
+    const send = spyOn(transport, 'send').mockRejectedValueOnce(
+      new Error('Connection refused')
+    )
+    await sendMail('verify-email', 'retried@example.com', data)
+    await processOutbox()
+    send.mockRestore()
+
+    const later = Date.now() + 31 * 24 * 60 * 60 * 1000
+    expect(await purgeOutbox(new Date(later - 2 * 24 * 60 * 60 * 1000))).toBe(0)
+    expect(await purgeOutbox(new Date(later))).toBeGreaterThanOrEqual(1)
+
+    expect(await outboxFor('sent@example.com')).toBeUndefined()
+    // Still waiting for its retry
+    expect(await outboxFor('retried@example.com')).toMatchObject({
+      status: 'pending',
+    })
+  })
+})
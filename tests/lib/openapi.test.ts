@@ -0,0 +1,143 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import type { MiddlewareHandler } from 'hono'
+import { z } from 'zod'
+
+import { createRouter } from '@/lib/create-app'
+import {
+  describeRoute,
+  generateOpenApiDocument,
+  withOpenApi,
+  type OpenApiDocument,
+} from '@/lib/openapi'
+import { validate } from '@/lib/validate'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+
+// A new middleware each time, metadata is attached to the function
+const passThrough = (): MiddlewareHandler => (_c, next) => next()
+
+const ItemSchema = z.object({ id: z.number(), name: z.string() })
+
+const routes = createRouter()
+  .use(
+    '/items/*',
+    withOpenApi(passThrough(), { rateLimit: { limit: 10, windowMs: 60_000 } })
+  )
+  .get(
+    '/items/:id',
+    describeRoute({
+      summary: 'Get an item',
+      tags: ['Items'],
+      responses: {
+        200: { description: 'The item', schema: ItemSchema },
+        404: { description: 'No such item' },
+      },
+    }),
+    withOpenApi(passThrough(), {
+      auth: { roles: ['editor'], permissions: { user: ['list'] } },
+    }),
+    validate({
+      params: z.object({ id: z.number().int() }),
+      query: z.object({ expand: z.boolean().optional() }),
+    }),
+    (c) => c.json({ id: c.req.valid('param').id, name: 'Pen' })
+  )
+  .post('/items/:id/tags/:tag', (c) => c.body(null, 204))
+  .get('/hidden', describeRoute({ hide: true }), (c) => c.text('ok'))
+
+describe('generateOpenApiDocument', () => {
+  const document = generateOpenApiDocument(routes, { title: 'Test API' })
+
+  test('documents every visible route', () => {
+    expect(document.info).toMatchObject({ title: 'Test API' })
+    expect(Object.keys(document.paths).sort()).toEqual([
+      '/items/{id}',
+      '/items/{id}/tags/{tag}',
+    ])
+  })
+
+  test('describes parameters from the validation schemas', () => {
+    const operation = document.paths['/items/{id}'].get
+
+    expect(operation).toMatchObject({ summary: 'Get an item', tags: ['Items'] })
+    expect(operation.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: expect.objectContaining({ type: 'integer' }),
+      },
+      {
+        name: 'expand',
+        in: 'query',
+        required: false,
+        schema: { type: 'boolean' },
+      },
+    ])
+    // Undeclared path params are required strings
+    expect(
+      document.paths['/items/{id}/tags/{tag}'].post.parameters
+    ).toContainEqual({
+      name: 'tag',
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    })
+  })
+
+  test('collects responses from every middleware', () => {
+    const operation = document.paths['/items/{id}'].get
+
+    expect(Object.keys(operation.responses ?? {}).sort()).toEqual([
+      '200',
+      '401',
+      '403',
+      '404',
+      '422',
+      '429',
+    ])
+    expect(operation.responses?.['200']).toMatchObject({
+      content: {
+        'application/json': {
+          schema: { type: 'object', required: ['id', 'name'] },
+        },
+      },
+    })
+    expect(operation).toMatchObject({
+      'x-required-roles': ['editor'],
+      'x-required-permissions': { user: ['list'] },
+      'x-rate-limits': [{ limit: 10, windowMs: 60_000 }],
+    })
+    expect(document.paths['/items/{id}/tags/{tag}'].post.responses).toEqual(
+      expect.objectContaining({ '200': { description: 'Successful response' } })
+    )
+  })
+})
+
+describe('docs routes', () => {
+  let testApp: TestApp
+
+  beforeAll(async () => {
+    testApp = await createTestApp()
+  })
+
+  test('serve the document of the app with the auth endpoints', async () => {
+    const res = await testApp.request('/api/openapi.json')
+
+    expect(res.status).toBe(200)
+    const { paths } = (await res.json()) as OpenApiDocument
+    expect(paths['/api/users/{id}/lockout']?.delete).toBeDefined()
+    expect(paths['/api/auth/sign-in/email']?.post?.tags).toEqual(['Auth'])
+    expect(paths).not.toHaveProperty('/api/openapi.json')
+  })
+
+  test('load a pinned docs UI', async () => {
+    const res = await testApp.request('/api/docs')
+
+    const page = await res.text()
+    expect(page).toContain('data-url="/api/openapi.json"')
+    expect(page).toMatch(/api-reference@\d+\.\d+\.\d+\//)
+    expect(page).toContain('integrity="sha384-')
+  })
+})
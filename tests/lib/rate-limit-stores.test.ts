@@ -0,0 +1,119 @@
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test'
+
+import { MemoryStore, type RateLimitStore } from '@/lib/rate-limit'
+import { PostgresStore, RedisStore } from '@/lib/rate-limit-stores'
+
+import { migrateTestSchema } from '../helpers/db'
+import { createRedisClient } from '../helpers/redis'
+
+const stores: [string, RateLimitStore][] = [
+  ['memory', new MemoryStore()],
+  ['postgres', new PostgresStore()],
+  ['redis', new RedisStore(createRedisClient())],
+]
+
+beforeAll(() => migrateTestSchema())
+
+describe.each(stores)('%s store', (_, store) => {
+  // Keys aren't shared between tests, stores without reset() keep them
+  let key: string
+  beforeEach(() => {
+    key = `test:${Bun.randomUUIDv7('hex')}`
+  })
+
+  test('reads back what was set until it expires', async () => {
+    expect(await store.get(key)).toBeNull()
+
+    await store.set(key, 5, 100)
+    expect(await store.get(key)).toBe(5)
+
+    await Bun.sleep(150)
+    expect(await store.get(key)).toBeNull()
+  })
+
+  test('counts within a window and starts over after it', async () => {
+    const first = await store.increment(key, 200)
+    const second = await store.increment(key, 200)
+
+    expect(first.count).toBe(1)
+    expect(first.ttl).toBeWithin(100, 201)
+    expect(second.count).toBe(2)
+    expect(second.ttl).toBeLessThanOrEqual(first.ttl)
+
+    await Bun.sleep(250)
+    expect((await store.increment(key, 200)).count).toBe(1)
+  })
+
+  test('logs hits up to the limit within the window', async () => {
+    const now = Date.now()
+
+    expect(await store.logHit(key, now, 1000, 2)).toEqual({
+      allowed: true,
+      count: 1,
+      oldest: now,
+    })
+    expect(await store.logHit(key, now + 10, 1000, 2)).toEqual({
+      allowed: true,
+      count: 2,
+      oldest: now,
+    })
+    expect(await store.logHit(key, now + 20, 1000, 2)).toEqual({
+      allowed: false,
+      count: 2,
+      oldest: now,
+    })
+    // The first hit left the window
+    expect(await store.logHit(key, now + 1005, 1000, 2)).toEqual({
+      allowed: true,
+      count: 2,
+      oldest: now + 10,
+    })
+  })
+
+  test('refuses every hit with a limit of 0', async () => {
+    const now = Date.now()
+
+    expect(await store.logHit(key, now, 1000, 0)).toEqual({
+      allowed: false,
+      count: 0,
+      oldest: now,
+    })
+  })
+
+  test('takes tokens while the bucket has some', async () => {
+    const now = Date.now()
+
+    // 2 tokens per second, one every 500ms
+    expect(await store.takeToken(key, now, 500, 1000)).toEqual({
+      allowed: true,
+      tat: now + 500,
+    })
+    expect(await store.takeToken(key, now, 500, 1000)).toEqual({
+      allowed: true,
+      tat: now + 1000,
+    })
+    expect((await store.takeToken(key, now, 500, 1000)).allowed).toBe(false)
+    // Refilled by one token
+    expect(await store.takeToken(key, now + 500, 500, 1000)).toEqual({
+      allowed: true,
+      tat: now + 1500,
+    })
+  })
+
+  test('answers pings', async () => {
+    expect(await store.ping?.()).toBeUndefined()
+  })
+})
+
+describe('redis store', () => {
+  test('gives a counter left without a TTL one', async () => {
+    const client = createRedisClient()
+    const store = new RedisStore(client)
+    await client.send('SET', ['stuck', '7'])
+
+    const hit = await store.increment('stuck', 1000)
+
+    expect(hit).toEqual({ count: 8, ttl: 1000 })
+    expect(await client.send('PTTL', ['stuck'])).toBeWithin(1, 1001)
+  })
+})
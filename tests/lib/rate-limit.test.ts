@@ -0,0 +1,145 @@
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test'
+
+import { createRouter } from '@/lib/create-app'
+import { PROBLEM_CONTENT_TYPE } from '@/lib/errors'
+import {
+  MemoryStore,
+  rateLimit,
+  resetRateLimits,
+  type RateLimitStore,
+} from '@/lib/rate-limit'
+import { PostgresStore, RedisStore } from '@/lib/rate-limit-stores'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+import { createRedisClient } from '../helpers/redis'
+
+const stores: [string, RateLimitStore][] = [
+  ['memory', new MemoryStore()],
+  ['postgres', new PostgresStore()],
+  ['redis', new RedisStore(createRedisClient())],
+]
+
+// Changed before every test, the database and Redis stores keep their
+// counters across tests
+let client = ''
+
+const routes = createRouter()
+for (const [name, store] of stores) {
+  routes.get(
+    `/limited/${name}`,
+    rateLimit({
+      limit: 2,
+      windowMs: 60_000,
+      legacyHeaders: true,
+      store,
+      keyGenerator: () => client,
+    }),
+    (c) => c.text('ok')
+  )
+}
+
+// Same policy, no store of their own
+for (const path of ['/shared/a', '/shared/b']) {
+  routes.get(
+    path,
+    rateLimit({ limit: 2, windowMs: 60_000, keyGenerator: () => client }),
+    (c) => c.text('ok')
+  )
+}
+
+let testApp: TestApp
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+})
+
+beforeEach(async () => {
+  client = Bun.randomUUIDv7('hex')
+  await resetRateLimits()
+})
+
+describe('global rate limit', () => {
+  test('reports the remaining quota in standard headers', async () => {
+    const first = await testApp.request('/api/dashboard')
+    const second = await testApp.request('/api/dashboard')
+
+    expect(first.headers.get('RateLimit-Limit')).toBe('100')
+    expect(first.headers.get('RateLimit-Remaining')).toBe('99')
+    expect(second.headers.get('RateLimit-Remaining')).toBe('98')
+
+    const reset = Number(first.headers.get('RateLimit-Reset'))
+    expect(reset).toBeGreaterThan(Date.now() / 1000)
+    expect(reset).toBeLessThanOrEqual(Math.ceil(Date.now() / 1000) + 60)
+  })
+
+  test('leaves legacy headers off by default', async () => {
+    const res = await testApp.request('/api/dashboard')
+
+    expect(res.headers.has('X-RateLimit-Limit')).toBe(false)
+  })
+
+  test('skips health probes', async () => {
+    const res = await testApp.request('/api/health/live')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.has('RateLimit-Limit')).toBe(false)
+  })
+})
+
+describe.each(stores)('route rate limit (%s store)', (name, store) => {
+  const path = `/api/test/limited/${name}`
+
+  test('rejects requests over the limit with Retry-After', async () => {
+    await testApp.request(path)
+    const allowed = await testApp.request(path)
+    const limited = await testApp.request(path)
+
+    expect(allowed.status).toBe(200)
+    expect(allowed.headers.get('RateLimit-Remaining')).toBe('0')
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Content-Type')).toStartWith(
+      PROBLEM_CONTENT_TYPE
+    )
+    const retryAfter = Number(limited.headers.get('Retry-After'))
+    expect(retryAfter).toBeGreaterThanOrEqual(1)
+    expect(retryAfter).toBeLessThanOrEqual(60)
+    expect(await limited.json()).toMatchObject({
+      type: 'urn:problem:rate-limited',
+      status: 429,
+      retryAfter,
+    })
+  })
+
+  test('sends legacy headers when enabled', async () => {
+    const res = await testApp.request(path)
+
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('2')
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('1')
+    expect(res.headers.get('X-RateLimit-Reset')).toBe(
+      res.headers.get('RateLimit-Reset')
+    )
+  })
+
+  test.if(!!store.reset)('starts over after resetRateLimits()', async () => {
+    await testApp.request(path)
+    await testApp.request(path)
+    await resetRateLimits()
+
+    const res = await testApp.request(path)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('RateLimit-Remaining')).toBe('1')
+  })
+})
+
+describe('default store', () => {
+  test('is shared by the limiters without a store', async () => {
+    await testApp.request('/api/test/shared/a')
+    await testApp.request('/api/test/shared/a')
+
+    const res = await testApp.request('/api/test/shared/b')
+
+    expect(res.status).toBe(429)
+  })
+})
@@ -0,0 +1,225 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+
+import { sql } from 'drizzle-orm'
+
+import db from '@/db'
+
+import {
+  formatTraceparent,
+  OtlpHttpExporter,
+  parseTraceparent,
+  setSpanProcessor,
+  SPAN_KIND,
+  SPAN_STATUS,
+  startSpan,
+  withSpan,
+  type Span,
+} from '@/lib/tracing'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+const SPAN_ID = '00f067aa0ba902b7'
+
+type OtlpSpan = ReturnType<Span['toOtlp']>
+
+interface OtlpRequest {
+  resourceSpans: {
+    resource: { attributes: { key: string; value: unknown }[] }
+    scopeSpans: { spans: OtlpSpan[] }[]
+  }[]
+}
+
+const requests: { path: string; body: OtlpRequest }[] = []
+const collector = Bun.serve({
+  port: 0,
+  fetch: async (req) => {
+    requests.push({
+      path: new URL(req.url).pathname,
+      body: (await req.json()) as OtlpRequest,
+    })
+    return new Response(null, { status: 200 })
+  },
+})
+
+afterAll(async () => {
+  await collector.stop(true)
+})
+
+const ended: Span[] = []
+
+beforeEach(() => {
+  requests.length = 0
+  ended.length = 0
+  setSpanProcessor({ onEnd: (span) => ended.push(span) })
+})
+
+describe('traceparent', () => {
+  test('is parsed', () => {
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, ' vendor=value ')
+    ).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+      traceState: 'vendor=value',
+    })
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(
+      false
+    )
+  })
+
+  test.each([
+    [undefined],
+    ['garbage'],
+    [`01-${TRACE_ID}-${SPAN_ID}-01`],
+    [`00-${'0'.repeat(32)}-${SPAN_ID}-01`],
+    [`00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+    [`00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+  ])('is ignored when invalid: %s', (header) => {
+    expect(parseTraceparent(header)).toBeNull()
+  })
+
+  test('round-trips through format', () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`
+
+    expect(formatTraceparent(parseTraceparent(header)!)).toBe(header)
+    expect(
+      formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: false })
+    ).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`)
+  })
+})
+
+describe('OtlpHttpExporter', () => {
+  const exporter = () =>
+    new OtlpHttpExporter({
+      endpoint: collector.url.href,
+      serviceName: 'honotreez-test',
+      flushIntervalMs: 60_000,
+    })
+
+  test('posts finished spans as OTLP JSON', async () => {
+    const processor = exporter()
+    setSpanProcessor(processor)
+    const parent = parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)
+
+    const span = startSpan('GET /api/health', {
+      parent,
+      kind: SPAN_KIND.SERVER,
+      attributes: { 'http.status_code': 200, 'http.route': '/api/health' },
+    })
+    span.recordException(new Error('boom'))
+    span.end()
+    await processor.shutdown()
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].path).toBe('/v1/traces')
+    const [resourceSpans] = requests[0].body.resourceSpans
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'honotreez-test' } },
+    ])
+    const [exported] = resourceSpans.scopeSpans[0].spans
+    expect(exported).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: SPAN_ID,
+      name: 'GET /api/health',
+      kind: SPAN_KIND.SERVER,
+      status: { code: SPAN_STATUS.ERROR, message: 'boom' },
+    })
+    expect(exported.attributes).toContainEqual({
+      key: 'http.status_code',
+      value: { intValue: 200 },
+    })
+    expect(exported.events[0].name).toBe('exception')
+    expect(BigInt(exported.endTimeUnixNano)).toBeGreaterThanOrEqual(
+      BigInt(exported.startTimeUnixNano)
+    )
+  })
+
+  test('exports full batches without waiting', async () => {
+    const processor = new OtlpHttpExporter({
+      endpoint: collector.url.href,
+      serviceName: 'honotreez-test',
+      maxBatchSize: 2,
+      flushIntervalMs: 60_000,
+    })
+    setSpanProcessor(processor)
+
+    startSpan('first').end()
+    startSpan('second').end()
+    // The batch is posted in the background
+    await Bun.sleep(50)
+
+    expect(requests).toHaveLength(1)
+    expect(
+      requests[0].body.resourceSpans[0].scopeSpans[0].spans.map(
+        (span) => span.name
+      )
+    ).toEqual(['first', 'second'])
+    await processor.shutdown()
+  })
+
+  test('skips spans that are not sampled', async () => {
+    const processor = exporter()
+    setSpanProcessor(processor)
+
+    startSpan('dropped', {
+      parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`),
+    }).end()
+    await processor.shutdown()
+
+    expect(requests).toHaveLength(0)
+  })
+
+  test('drops the batch when the collector is unreachable', async () => {
+    const processor = new OtlpHttpExporter({
+      endpoint: 'http://127.0.0.1:1',
+      serviceName: 'honotreez-test',
+    })
+    processor.onEnd(startSpan('lost'))
+
+    expect(await processor.shutdown()).toBeUndefined()
+  })
+})
+
+describe('database spans', () => {
+  test('are recorded for queries inside a trace', async () => {
+    await withSpan('parent', () => db.execute(sql`SELECT 1`))
+
+    const parent = ended.find((span) => span.name === 'parent')!
+    const query = ended.find((span) => span.name === 'db.select')
+    expect(query).toBeDefined()
+    expect(query!.kind).toBe(SPAN_KIND.CLIENT)
+    expect(query!.context.traceId).toBe(parent.context.traceId)
+    expect(query!.parentSpanId).toBe(parent.context.spanId)
+    expect(query!.toOtlp().attributes).toContainEqual({
+      key: 'db.statement',
+      value: { stringValue: 'SELECT 1' },
+    })
+  })
+
+  test('are recorded inside transactions', async () => {
+    await withSpan('parent', () =>
+      db.transaction((tx) => tx.execute(sql`SELECT 2`))
+    )
+
+    expect(ended.map((span) => span.name)).toEqual(
+      expect.arrayContaining(['db.begin', 'db.select', 'db.commit', 'parent'])
+    )
+  })
+
+  test('record failed queries as errors', async () => {
+    const failed = await withSpan('parent', () =>
+      db.execute(sql`SELECT * FROM no_such_table`)
+    ).catch((err: unknown) => err)
+
+    expect(failed).toBeInstanceOf(Error)
+
+    const query = ended.find((span) => span.name === 'db.select')!
+    expect(query.toOtlp().status.code).toBe(SPAN_STATUS.ERROR)
+  })
+
+  test('are not recorded outside a trace', async () => {
+    await db.execute(sql`SELECT 1`)
+
+    expect(ended).toHaveLength(0)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test'
+
+import { parseUserAgent, type DeviceInfo } from '@/lib/user-agent'
+
+describe('parseUserAgent', () => {
+  test.each<[string, DeviceInfo]>([
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36 Edg/130.0.0.0',
+      { browser: 'Edge', os: 'Windows', type: 'desktop' },
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1',
+      { browser: 'Safari', os: 'iOS', type: 'mobile' },
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36',
+      { browser: 'Chrome', os: 'Android', type: 'tablet' },
+    ],
+    ['curl/8.9.1', { browser: null, os: null, type: 'bot' }],
+  ])('%s', (userAgent, device) => {
+    expect(parseUserAgent(userAgent)).toEqual(device)
+  })
+
+  test('knows nothing without a header', () => {
+    expect(parseUserAgent(null)).toEqual({
+      browser: null,
+      os: null,
+      type: null,
+    })
+  })
+})
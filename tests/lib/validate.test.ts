@@ -0,0 +1,195 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import { z } from 'zod'
+
+import { createRouter } from '@/lib/create-app'
+import { validate } from '@/lib/validate'
+
+import { createTestApp, type TestApp } from '../helpers/app'
+
+const ItemSchema = z.object({
+  name: z.string(),
+  count: z.number().int(),
+  urgent: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+})
+
+const routes = createRouter()
+  .post('/items', validate({ body: ItemSchema }), (c) =>
+    c.json(c.req.valid('json'))
+  )
+  .post(
+    '/strict',
+    validate({ body: ItemSchema }, { unknownKeys: 'strict' }),
+    (c) => c.json(c.req.valid('json'))
+  )
+  .post(
+    '/items/:id',
+    validate({
+      params: z.object({ id: z.number().int() }),
+      query: z.object({
+        page: z.number().int().min(1).default(1),
+        tags: z.array(z.string()).optional(),
+      }),
+      headers: z.object({ 'x-tenant': z.string() }),
+      body: ItemSchema,
+    }),
+    (c) =>
+      c.json({
+        id: c.req.valid('param').id,
+        query: c.req.valid('query'),
+        tenant: c.req.valid('header')['x-tenant'],
+        body: c.req.valid('json'),
+      })
+  )
+
+let testApp: TestApp
+
+beforeAll(async () => {
+  testApp = await createTestApp(routes)
+})
+
+interface ProblemBody {
+  status: number
+  type: string
+  errors?: { location: string; path: string; message: string }[]
+}
+
+const post = (
+  path: string,
+  body: RequestInit['body'],
+  headers: Record<string, string> = {}
+) => testApp.request(`/api/test${path}`, { method: 'POST', headers, body })
+
+const json = (
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+) =>
+  post(path, JSON.stringify(body), {
+    'Content-Type': 'application/json',
+    ...headers,
+  })
+
+describe('body', () => {
+  test('accepts JSON matching the schema', async () => {
+    const res = await json('/items', { name: 'Pen', count: 2 })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ name: 'Pen', count: 2 })
+  })
+
+  test('coerces multipart fields', async () => {
+    const form = new FormData()
+    form.append('name', 'Pen')
+    form.append('count', '2')
+    form.append('urgent', 'true')
+    form.append('tags', 'office')
+    form.append('tags', 'blue')
+
+    const res = await post('/items', form)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      name: 'Pen',
+      count: 2,
+      urgent: true,
+      tags: ['office', 'blue'],
+    })
+  })
+
+  test('coerces URL-encoded fields', async () => {
+    const res = await post(
+      '/items',
+      new URLSearchParams({ name: 'Pen', count: '3', tags: 'office' })
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      name: 'Pen',
+      count: 3,
+      tags: ['office'],
+    })
+  })
+
+  test('strips unknown keys by default', async () => {
+    const res = await json('/items', { name: 'Pen', count: 2, admin: true })
+
+    expect(await res.json()).toEqual({ name: 'Pen', count: 2 })
+  })
+
+  test('rejects unknown keys in strict mode', async () => {
+    const res = await json('/strict', {
+      name: 'Pen',
+      count: 2,
+      admin: true,
+      owner: 'me',
+    })
+
+    expect(res.status).toBe(422)
+    expect(((await res.json()) as ProblemBody).errors).toEqual([
+      { location: 'body', path: 'admin', message: 'Unrecognized key' },
+      { location: 'body', path: 'owner', message: 'Unrecognized key' },
+    ])
+  })
+
+  test('answers 415 for unsupported content types', async () => {
+    const res = await post('/items', 'name=Pen', {
+      'Content-Type': 'text/plain',
+    })
+
+    expect(res.status).toBe(415)
+    expect(await res.json()).toMatchObject({
+      type: 'urn:problem:unsupported-media-type',
+    })
+  })
+})
+
+describe('request parts', () => {
+  test('are coerced from strings', async () => {
+    const res = await json(
+      '/items/7?page=2&tags=a&tags=b',
+      { name: 'Pen', count: 1 },
+      { 'X-Tenant': 'acme' }
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      id: 7,
+      query: { page: 2, tags: ['a', 'b'] },
+      tenant: 'acme',
+      body: { name: 'Pen', count: 1 },
+    })
+  })
+
+  test('report every failing field at once', async () => {
+    const res = await json('/items/abc?page=0', { name: 'Pen' })
+
+    expect(res.status).toBe(422)
+    const { errors } = (await res.json()) as ProblemBody
+    expect(errors?.map(({ location, path }) => `${location}:${path}`)).toEqual(
+      expect.arrayContaining([
+        'params:id',
+        'query:page',
+        'headers:x-tenant',
+        'body:count',
+      ])
+    )
+  })
+
+  test('are still checked when the JSON body is malformed', async () => {
+    const res = await post('/items/abc', '{"name":', {
+      'Content-Type': 'application/json',
+      'X-Tenant': 'acme',
+    })
+
+    expect(res.status).toBe(422)
+    const { errors } = (await res.json()) as ProblemBody
+    expect(errors).toContainEqual({
+      location: 'body',
+      path: '',
+      message: 'Malformed JSON body',
+    })
+    expect(errors?.map((issue) => issue.location)).toContain('params')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test'
+
+import { createZip } from '@/lib/zip'
+
+/**
+ * Files of an archive, read through its central directory
+ */
+const unzip = (archive: Uint8Array<ArrayBuffer>) => {
+  const view = new DataView(archive.buffer)
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const files: Record<string, string> = {}
+  let position = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50)
+    const crc = view.getUint32(position + 16, true)
+    const size = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const offset = view.getUint32(position + 42, true)
+    const name = new TextDecoder().decode(
+      archive.subarray(position + 46, position + 46 + nameLength)
+    )
+
+    const start = offset + 30 + view.getUint16(offset + 26, true)
+    const data = Bun.inflateSync(archive.subarray(start, start + size))
+    expect(Bun.hash.crc32(data)).toBe(crc)
+    files[name] = new TextDecoder().decode(data)
+    position += 46 + nameLength
+  }
+  return files
+}
+
+describe('createZip', () => {
+  test('stores every entry', () => {
+    const files = {
+      'user.json': JSON.stringify({ name: 'Ada' }),
+      'nested/données.txt': 'repeated '.repeat(500),
+      'empty.txt': '',
+    }
+
+    const archive = createZip(
+      Object.entries(files).map(([name, data]) => ({ name, data }))
+    )
+
+    expect(unzip(archive)).toEqual(files)
+  })
+
+  test('compresses', () => {
+    const data = 'repeated '.repeat(500)
+
+    expect(createZip([{ name: 'a.txt', data }]).length).toBeLessThan(200)
+  })
+
+  test('writes an empty archive', () => {
+    expect(unzip(createZip([]))).toEqual({})
+  })
+})
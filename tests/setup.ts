@@ -0,0 +1,34 @@
+import 'dotenv/config'
+import { afterAll } from 'bun:test'
+
+/*
+  Preloaded before every test file (see bunfig.toml). With `bun test --isolate`
+  each file gets a fresh module registry, so this runs once per file and the
+  app, the database pool and the rate limit stores are never shared.
+*/
+
+process.env.NODE_ENV = 'test'
+// Unique per file, created and migrated on first use by createTestApp()
+const schema = `test_${Bun.randomUUIDv7('hex').slice(-12)}`
+process.env.TEST_DB_SCHEMA = schema
+// Every pooled connection resolves unqualified tables in that schema
+if (process.env.DATABASE_URL) {
+  const url = new URL(process.env.DATABASE_URL)
+  url.searchParams.set('options', `-c search_path=${schema}`)
+  process.env.DATABASE_URL = url.href
+}
+process.env.LOG_LEVEL = process.env.TEST_LOG_LEVEL ?? 'error'
+process.env.RATE_LIMIT_STORE = 'memory'
+// Read with getMailTransport(), delivered by processOutbox()
+process.env.MAIL_TRANSPORT = 'memory'
+delete process.env.LOG_FILE
+
+afterAll(async () => {
+  const { dropTestSchema } = await import('./helpers/db')
+  const { runShutdownHooks } = await import('@/lib/lifecycle')
+
+  await dropTestSchema()
+  await runShutdownHooks((name, error) => {
+    console.error(`Shutdown hook "${name}" failed`, error)
+  })
+})